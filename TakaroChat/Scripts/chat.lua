@@ -22,7 +22,8 @@ local function SendToBridge(playerName, message, category)
     )
 
     local command = string.format(
-        'curl -s -X POST -H "Content-Type: application/json" -d "%s" %s',
+        'curl -s%s -X POST -H "Content-Type: application/json" -d "%s" %s',
+        Utils.BridgeAuthHeader(),
         json:gsub('"', '\\"'),
         config.BridgeURL
     )
@@ -3,6 +3,9 @@ local config = {}
 -- Takaro Bridge Settings
 config.BridgeURL = "http://localhost:3001/chat"
 config.EnableBridge = true
+config.BridgeToken = "" -- Must match BRIDGE_SECRET in the bridge's TakaroConfig.txt (letters and numbers only)
+config.UsePushChannel = false -- Receive teleport/location/item/Pal/whisper jobs from /jobs instead of polling each queue (needs a bridge with /jobs)
+config.PushWaitSeconds = 10 -- How long one /jobs request waits for new jobs (keep below the bridge's MOD_JOBS_MAX_WAIT)
 
 -- Discord Webhook Settings (optional - sends directly to Discord)
 config.EnableDiscordWebhook = false
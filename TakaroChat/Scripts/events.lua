@@ -22,7 +22,8 @@ local function SendEventToBridge(eventType, playerName, data)
     )
 
     local command = string.format(
-        'curl -s -X POST -H "Content-Type: application/json" -d "%s" %s',
+        'curl -s%s -X POST -H "Content-Type: application/json" -d "%s" %s',
+        Utils.BridgeAuthHeader(),
         json:gsub('"', '\\"'),
         config.BridgeURL
     )
@@ -172,7 +173,15 @@ function Events.Initialize()
                     if playerState and playerState:IsValid() then
                         local playerName = playerState.PlayerNamePrivate:ToString()
                         if playerName and playerName ~= "" then
-                            SendEventToBridge("player_death", playerName, "{}")
+                            -- Position at the time of death (the bridge falls back to the last known one)
+                            local data = "{}"
+                            pcall(function()
+                                local loc = character:K2_GetActorLocation()
+                                if loc then
+                                    data = string.format('{"x":%.2f,"y":%.2f,"z":%.2f}', loc.X, loc.Y, loc.Z)
+                                end
+                            end)
+                            SendEventToBridge("player_death", playerName, data)
                             logger:log(2, string.format("Player died: %s", playerName))
                         end
                     end
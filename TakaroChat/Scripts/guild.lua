@@ -25,7 +25,8 @@ local function SendGuildDataToBridge(guildData)
 
     local jsonEscaped = json:gsub('"', '\\"')
     local curlCommand = string.format(
-        'curl -s -m 3 -X POST -H "Content-Type: application/json" -d "%s" http://%s/guild-data',
+        'curl -s -m 3%s -X POST -H "Content-Type: application/json" -d "%s" http://%s/guild-data',
+        Utils.BridgeAuthHeader(),
         jsonEscaped,
         bridgeHost
     )
@@ -28,7 +28,8 @@ local function SendInventoryToBridge(playerName, inventoryData)
 
     local jsonEscaped = json:gsub('"', '\\"')
     local curlCommand = string.format(
-        'curl -s -m 3 -X POST -H "Content-Type: application/json" -d "%s" http://%s/chat',
+        'curl -s -m 3%s -X POST -H "Content-Type: application/json" -d "%s" http://%s/chat',
+        Utils.BridgeAuthHeader(),
         jsonEscaped,
         bridgeHost
     )
@@ -5,6 +5,20 @@ local logger = Utils.Logger:new()
 
 local Items = {}
 
+-- Give items for queued requests (from /item-queue or the /jobs push channel)
+local function ProcessItemRequests(result)
+    -- Parse JSON response for item requests
+    -- Format: {"requests":[{"playerName":"...", "itemId":"...", "quantity":1, "requestId":"..."}]}
+    for playerName, itemId, quantity, requestId in result:gmatch('"playerName"%s*:%s*"([^"]+)"[^}]*"itemId"%s*:%s*"([^"]+)"[^}]*"quantity"%s*:%s*(%d+)[^}]*"requestId"%s*:%s*"([^"]+)"') do
+        logger:log(2, string.format("[ITEMS] Processing request %s: Give %d x %s to %s", requestId, tonumber(quantity), itemId, playerName))
+
+        local success = GiveItemToPlayer(playerName, itemId, tonumber(quantity))
+
+        -- Send response to bridge
+        SendItemResponse(requestId, playerName, itemId, quantity, success)
+    end
+end
+
 -- Fetch item requests from bridge
 local function FetchItemRequests()
     if not config.EnableBridge then
@@ -19,7 +33,7 @@ local function FetchItemRequests()
         end
 
         local url = string.format('http://%s/item-queue', bridgeHost)
-        local command = string.format('curl -s %s', url)
+        local command = string.format('curl -s%s %s', Utils.BridgeAuthHeader(), url)
         local handle = io.popen(command)
         if not handle then
             logger:log(1, "[ITEMS] Failed to fetch item queue")
@@ -30,16 +44,7 @@ local function FetchItemRequests()
         handle:close()
 
         if result and result ~= "" and result ~= '{"requests":[]}' then
-            -- Parse JSON response for item requests
-            -- Format: {"requests":[{"playerName":"...", "itemId":"...", "quantity":1, "requestId":"..."}]}
-            for playerName, itemId, quantity, requestId in result:gmatch('"playerName"%s*:%s*"([^"]+)"[^}]*"itemId"%s*:%s*"([^"]+)"[^}]*"quantity"%s*:%s*(%d+)[^}]*"requestId"%s*:%s*"([^"]+)"') do
-                logger:log(2, string.format("[ITEMS] Processing request %s: Give %d x %s to %s", requestId, tonumber(quantity), itemId, playerName))
-
-                local success = GiveItemToPlayer(playerName, itemId, tonumber(quantity))
-
-                -- Send response to bridge
-                SendItemResponse(requestId, playerName, itemId, quantity, success)
-            end
+            ProcessItemRequests(result)
         end
     end)
 
@@ -118,7 +123,8 @@ function SendItemResponse(requestId, playerName, itemId, quantity, success)
 
     local jsonEscaped = json:gsub('"', '\\"')
     local curlCommand = string.format(
-        'curl -s -m 3 -X POST -H "Content-Type: application/json" -d "%s" http://%s/item-response',
+        'curl -s -m 3%s -X POST -H "Content-Type: application/json" -d "%s" http://%s/item-response',
+        Utils.BridgeAuthHeader(),
         jsonEscaped,
         bridgeHost
     )
@@ -131,15 +137,28 @@ function SendItemResponse(requestId, playerName, itemId, quantity, success)
     end
 end
 
+-- Handle item jobs delivered over the push channel (jobs.lua)
+function Items.HandleJobs(result)
+    local success, err = pcall(function()
+        ProcessItemRequests(result)
+    end)
+
+    if not success then
+        logger:log(1, "[ITEMS] Error processing item jobs: " .. tostring(err))
+    end
+end
+
 -- Initialize item system
 function Items.Initialize()
     logger:log(2, "[ITEMS] Initializing item giving system...")
 
-    -- Poll bridge for item requests every second
-    LoopAsync(1000, function()
-        FetchItemRequests()
-        return false
-    end)
+    -- Poll bridge for item requests every second (older bridges without /jobs)
+    if not config.UsePushChannel then
+        LoopAsync(1000, function()
+            FetchItemRequests()
+            return false
+        end)
+    end
 
     logger:log(2, "[ITEMS] Item giving system initialized")
 end
@@ -0,0 +1,136 @@
+-- Job push channel - long-polls the bridge for teleport, location, item, Pal and whisper jobs
+local config = require("config")
+local Utils = require("utils")
+local logger = Utils.Logger:new()
+
+local Teleport = require("teleport")
+local Location = require("location")
+local Items = require("items")
+local Pals = require("pals")
+local Whisper = require("whisper")
+
+local Jobs = {}
+
+-- Seconds to wait before retrying after the bridge could not be reached
+local RETRY_DELAY = 5
+-- Extra seconds to wait for a long-poll response before giving up on it
+local FETCH_GRACE = 5
+local retryAt = 0
+
+-- The long-poll runs as a background curl that writes its response to a file,
+-- so waiting for jobs never blocks the mod's async loop
+local RESPONSE_FILE = "TakaroJobs.json"
+local PARTIAL_FILE = "TakaroJobs.json.part"
+local fetchStartedAt = nil
+
+-- Start waiting for jobs on the bridge's /jobs endpoint (returns as soon as a job is queued)
+local function StartFetch()
+    local bridgeHost = config.BridgeURL:match("http://([^/]+)")
+    if not bridgeHost then
+        logger:log(1, "[JOBS] Could not extract bridge host from URL")
+        retryAt = os.time() + RETRY_DELAY
+        return
+    end
+
+    os.remove(RESPONSE_FILE)
+    os.remove(PARTIAL_FILE)
+
+    -- The response is renamed into place once complete, so a half-written one is never read
+    local url = string.format('http://%s/jobs?wait=%d', bridgeHost, config.PushWaitSeconds)
+    local command = string.format(
+        'curl -s -m %d%s -o %s %s && move /Y %s %s >nul',
+        config.PushWaitSeconds + 5,
+        Utils.BridgeAuthHeader(),
+        PARTIAL_FILE,
+        url,
+        PARTIAL_FILE,
+        RESPONSE_FILE
+    )
+    os.execute('start /B "" cmd /c "' .. command .. '" >nul 2>&1')
+    fetchStartedAt = os.time()
+end
+
+-- Hand a /jobs response to the modules; each handler only matches its own job objects
+local function DispatchJobs(result)
+    if result:match('"type"%s*:%s*"teleport"') then
+        Teleport.HandleJobs(result)
+    end
+    if result:match('"type"%s*:%s*"location"') then
+        Location.HandleJobs(result)
+    end
+    if result:match('"type"%s*:%s*"item"') then
+        Items.HandleJobs(result)
+    end
+    if result:match('"type"%s*:%s*"pal"') then
+        Pals.HandleJobs(result)
+    end
+    if result:match('"type"%s*:%s*"whisper"') then
+        Whisper.HandleJobs(result)
+    end
+end
+
+-- Check whether the running long-poll has answered; start the next one when idle
+local function CheckJobs()
+    if not config.EnableBridge then
+        return
+    end
+
+    local success, err = pcall(function()
+        if not fetchStartedAt then
+            if os.time() >= retryAt then
+                StartFetch()
+            end
+            return
+        end
+
+        local file = io.open(RESPONSE_FILE, "r")
+        if not file then
+            if os.time() - fetchStartedAt > config.PushWaitSeconds + 5 + FETCH_GRACE then
+                -- curl failed (bridge offline) without writing a response
+                fetchStartedAt = nil
+                retryAt = os.time() + RETRY_DELAY
+            end
+            return
+        end
+
+        local result = file:read("*a")
+        file:close()
+        os.remove(RESPONSE_FILE)
+        fetchStartedAt = nil
+
+        if not result or not result:match('"jobs"') then
+            -- Bridge too old to have /jobs
+            retryAt = os.time() + RETRY_DELAY
+            return
+        end
+
+        if result ~= '{"jobs":[]}' then
+            DispatchJobs(result)
+        end
+    end)
+
+    if not success then
+        logger:log(1, "[JOBS] Error fetching jobs: " .. tostring(err))
+        fetchStartedAt = nil
+        retryAt = os.time() + RETRY_DELAY
+    end
+end
+
+-- Initialize job push channel
+function Jobs.Initialize()
+    if not config.UsePushChannel then
+        return
+    end
+
+    logger:log(2, "[JOBS] Initializing job push channel...")
+
+    -- Only checks for a finished response, the wait itself happens in curl
+    LoopAsync(250, function()
+        CheckJobs()
+        return false
+    end)
+
+    logger:log(2, "[JOBS] Job push channel initialized")
+end
+
+return Jobs
@@ -1,6 +1,6 @@
 -- Takaro Chat Bridge for Palworld v1.5.0
 -- Modular bidirectional chat integration between Palworld, Takaro, and Discord
--- Features: Chat, Events, Discord, Teleport, Location, Items, Inventory
+-- Features: Chat, Events, Discord, Teleport, Location, Items, Pals, Private Messages, Inventory
 
 print("=== Takaro Chat Bridge v1.5.0 ===")
 
@@ -40,12 +40,27 @@ Location.Initialize()
 local Items = require("items")
 Items.Initialize()
 
+-- Pal giving/spawning system (givePal/spawnPal via bridge)
+local Pals = require("pals")
+Pals.Initialize()
+
+-- Private messages (sendMessage with a recipient via bridge)
+local Whisper = require("whisper")
+Whisper.Initialize()
+
+-- Job push channel (delivers teleport/location/item/Pal/whisper jobs as soon as they are queued)
+-- Enable in config.lua by setting config.UsePushChannel = true
+local Jobs = require("jobs")
+Jobs.Initialize()
+
 -- Inventory tracking (Fixed - now uses PlayerState:GetInventoryData)
 -- Enable in config.lua by setting config.EnableInventoryTracking = true
 local Inventory = require("inventory")
 Inventory.Initialize()
 
 -- Guild data tracking (DISABLED - unable to get guild info, causes crashes)
+-- The bridge's guilds/guild commands, the guild field in getPlayers and guild
+-- membership events all depend on this module's /guild-data posts
 -- local Guild = require("guild")
 -- Guild.Initialize()
 
@@ -60,6 +75,9 @@ print("  Logging: " .. (config.EnableLogging and "Enabled" or "Disabled"))
 print("  Teleport: Enabled (coordinate + player-to-player)")
 print("  Location Lookup: Enabled (full X/Y/Z coordinates)")
 print("  Item Giving: Enabled (via bridge API)")
+print("  Pal Giving: Enabled (via bridge API, needs the game's cheat manager)")
+print("  Private Messages: Enabled (via bridge API)")
+print("  Job Delivery: " .. (config.UsePushChannel and "Push channel (/jobs)" or "Queue polling"))
 print("  Inventory Tracking: " .. (config.EnableInventoryTracking and "Enabled" or "Disabled"))
 print("  Guild Tracking: Disabled (unable to retrieve)")
 print("==========================")
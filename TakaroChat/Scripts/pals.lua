@@ -0,0 +1,179 @@
+-- Pal giving module - processes givePal/spawnPal requests from bridge
+local config = require("config")
+local Utils = require("utils")
+local logger = Utils.Logger:new()
+
+local Pals = {}
+
+-- Find an online player's character by account name
+local function FindPlayer(playerName)
+    local PlayersList = FindAllOf("PalPlayerCharacter")
+    if not PlayersList then
+        return nil
+    end
+
+    for _, Player in ipairs(PlayersList) do
+        if Player ~= nil and Player:IsValid() then
+            local playerState = Player.PlayerState
+            if playerState and playerState:IsValid() and playerState.PlayerNamePrivate:ToString() == playerName then
+                return Player
+            end
+        end
+    end
+
+    return nil
+end
+
+-- Create Pals for a player through the game's cheat manager
+-- mode "give" puts them in the player's Pal box, "spawn" drops them next to the player
+-- Returns success plus an error message for the bridge
+function CreatePalsForPlayer(playerName, palId, level, count, mode)
+    local result, message = false, "unknown error"
+
+    local success, err = pcall(function()
+        local Player = FindPlayer(playerName)
+        if not Player then
+            message = "player not online"
+            return
+        end
+
+        local controller = Player:GetController()
+        local cheatManager = controller and controller:IsValid() and controller.CheatManager
+        if not cheatManager or not cheatManager:IsValid() then
+            message = "cheat manager not available on this server"
+            return
+        end
+
+        for i = 1, count do
+            if mode == "spawn" then
+                cheatManager:SpawnMonster(FName(palId), level)
+            else
+                cheatManager:AddPal(FName(palId), level)
+            end
+        end
+
+        logger:log(2, string.format("[PALS] %s %d x %s (level %d) for %s", mode == "spawn" and "Spawned" or "Gave", count, palId, level, playerName))
+        result = true
+    end)
+
+    if not success then
+        logger:log(1, string.format("[PALS] Error creating Pal: %s", tostring(err)))
+        return false, "the game rejected the request"
+    end
+
+    if not result then
+        logger:log(1, string.format("[PALS] Could not create %s for %s: %s", palId, playerName, message))
+    end
+    return result, message
+end
+
+-- Create Pals for queued requests (from /pal-queue or the /jobs push channel)
+local function ProcessPalRequests(result)
+    -- Parse JSON response for Pal requests
+    -- Format: {"requests":[{"playerName":"...", "palId":"...", "level":1, "count":1, "mode":"give", "requestId":"..."}]}
+    for playerName, palId, level, count, mode, requestId in result:gmatch('"playerName"%s*:%s*"([^"]+)"[^}]*"palId"%s*:%s*"([^"]+)"[^}]*"level"%s*:%s*(%d+)[^}]*"count"%s*:%s*(%d+)[^}]*"mode"%s*:%s*"([^"]+)"[^}]*"requestId"%s*:%s*"([^"]+)"') do
+        logger:log(2, string.format("[PALS] Processing request %s: %s %d x %s (level %d) for %s", requestId, mode, tonumber(count), palId, tonumber(level), playerName))
+
+        local success, message = CreatePalsForPlayer(playerName, palId, tonumber(level), tonumber(count), mode)
+
+        -- Send response to bridge
+        SendPalResponse(requestId, playerName, palId, level, count, success, message)
+    end
+end
+
+-- Fetch Pal requests from bridge
+local function FetchPalRequests()
+    if not config.EnableBridge then
+        return
+    end
+
+    local success, err = pcall(function()
+        local bridgeHost = config.BridgeURL:match("http://([^/]+)")
+        if not bridgeHost then
+            logger:log(1, "[PALS] Could not extract bridge host from URL")
+            return
+        end
+
+        local url = string.format('http://%s/pal-queue', bridgeHost)
+        local command = string.format('curl -s%s %s', Utils.BridgeAuthHeader(), url)
+        local handle = io.popen(command)
+        if not handle then
+            logger:log(1, "[PALS] Failed to fetch Pal queue")
+            return
+        end
+
+        local result = handle:read("*a")
+        handle:close()
+
+        if result and result ~= "" and result ~= '{"requests":[]}' then
+            ProcessPalRequests(result)
+        end
+    end)
+
+    if not success then
+        logger:log(1, "[PALS] Error fetching Pal requests: " .. tostring(err))
+    end
+end
+
+-- Send Pal response back to bridge
+function SendPalResponse(requestId, playerName, palId, level, count, success, message)
+    local bridgeHost = config.BridgeURL:match("http://([^/]+)")
+    if not bridgeHost then
+        return
+    end
+
+    local json = string.format(
+        '{"requestId":"%s","playerName":"%s","palId":"%s","level":%d,"count":%d,"success":%s,"error":"%s","timestamp":"%s"}',
+        requestId,
+        Utils.EscapeJSON(playerName),
+        Utils.EscapeJSON(palId),
+        level,
+        count,
+        tostring(success),
+        success and "" or Utils.EscapeJSON(message),
+        os.date("!%Y-%m-%dT%H:%M:%SZ")
+    )
+
+    local jsonEscaped = json:gsub('"', '\\"')
+    local curlCommand = string.format(
+        'curl -s -m 3%s -X POST -H "Content-Type: application/json" -d "%s" http://%s/pal-response',
+        Utils.BridgeAuthHeader(),
+        jsonEscaped,
+        bridgeHost
+    )
+
+    local handle = io.popen(curlCommand .. ' 2>&1')
+    if handle then
+        handle:read("*a")
+        handle:close()
+        logger:log(3, string.format("[PALS] Sent response for request %s", requestId))
+    end
+end
+
+-- Handle Pal jobs delivered over the push channel (jobs.lua)
+function Pals.HandleJobs(result)
+    local success, err = pcall(function()
+        ProcessPalRequests(result)
+    end)
+
+    if not success then
+        logger:log(1, "[PALS] Error processing Pal jobs: " .. tostring(err))
+    end
+end
+
+-- Initialize Pal system
+function Pals.Initialize()
+    logger:log(2, "[PALS] Initializing Pal giving system...")
+
+    -- Poll bridge for Pal requests every second (older bridges without /jobs)
+    if not config.UsePushChannel then
+        LoopAsync(1000, function()
+            FetchPalRequests()
+            return false
+        end)
+    end
+
+    logger:log(2, "[PALS] Pal giving system initialized")
+end
+
+return Pals
@@ -6,6 +6,10 @@ local logger = Utils.Logger:new()
 local Teleport = {}
 local teleportQueue = {}
 
+-- Seconds a teleport waits for its player before it is reported as failed
+-- (only for bridges that don't send an expiresAt deadline with the teleport)
+local TELEPORT_MAX_WAIT = 30
+
 -- Get PalUtility for teleport function (from AdminEngine pattern)
 local PalUtilities = nil
 local function GetPalUtil()
@@ -15,14 +19,66 @@ local function GetPalUtil()
     return PalUtilities
 end
 
+-- Check if a bridge request is already waiting in the local queue (its lease can expire while the player is away)
+local function IsRequestQueued(requestId)
+    for _, teleport in ipairs(teleportQueue) do
+        if teleport.requestId == requestId then
+            return true
+        end
+    end
+    return false
+end
+
+-- Send the teleport result back to the bridge (also acknowledges the job)
+-- Teleports from older bridges have no requestId and get no response
+local function SendTeleportResponse(requestId, playerName, success, errorMessage, x, y, z)
+    if not requestId then
+        return
+    end
+
+    local bridgeHost = config.BridgeURL:match("http://([^/]+)")
+    if not bridgeHost then
+        return
+    end
+
+    local json = string.format(
+        '{"requestId":"%s","playerName":"%s","success":%s,"error":"%s","x":%.2f,"y":%.2f,"z":%.2f,"timestamp":"%s"}',
+        requestId,
+        Utils.EscapeJSON(playerName),
+        tostring(success),
+        Utils.EscapeJSON(errorMessage or ""),
+        x or 0,
+        y or 0,
+        z or 0,
+        os.date("!%Y-%m-%dT%H:%M:%SZ")
+    )
+
+    local jsonEscaped = json:gsub('"', '\\"')
+    local curlCommand = string.format(
+        'curl -s -m 3%s -X POST -H "Content-Type: application/json" -d "%s" http://%s/teleport-response',
+        Utils.BridgeAuthHeader(),
+        jsonEscaped,
+        bridgeHost
+    )
+
+    local handle = io.popen(curlCommand .. ' 2>&1')
+    if handle then
+        handle:read("*a")
+        handle:close()
+        logger:log(3, string.format("[TELEPORT] Sent response for request %s", requestId))
+    end
+end
+
 -- Add teleport to queue
-local function QueueTeleport(playerName, x, y, z)
+-- expiresAt is the bridge's deadline (Unix seconds); after it the bridge has already reported the teleport as failed
+local function QueueTeleport(playerName, x, y, z, requestId, expiresAt)
     table.insert(teleportQueue, {
         playerName = playerName,
         x = x,
         y = y,
         z = z,
-        timestamp = os.time()
+        requestId = requestId,
+        expiresAt = expiresAt or (os.time() + TELEPORT_MAX_WAIT)
     })
     logger:log(2, string.format("Queued teleport for %s to (%.1f, %.1f, %.1f)", playerName, x, y, z))
 end
@@ -33,6 +89,16 @@ local function ProcessTeleports()
         return
     end
 
+    -- Give up on teleports whose player never showed up
+    for i = #teleportQueue, 1, -1 do
+        local teleport = teleportQueue[i]
+        if os.time() >= teleport.expiresAt then
+            logger:log(1, string.format("Teleport for %s expired: player not found", teleport.playerName))
+            table.remove(teleportQueue, i)
+            SendTeleportResponse(teleport.requestId, teleport.playerName, false, "Player not found online")
+        end
+    end
+
     local success, err = pcall(function()
         local players = FindAllOf("PalPlayerCharacter")
         if not players then
@@ -79,6 +145,8 @@ local function ProcessTeleports()
                     }
 
                     -- Teleport using PalUtility with crash protection
+                    local teleported = false
+                    local failure = nil
                     local palUtil = GetPalUtil()
                     if palUtil and palUtil:IsValid() then
                         -- Re-validate player right before teleport (final safety check)
@@ -91,16 +159,20 @@ local function ProcessTeleports()
                         end)
 
                         if tpSuccess then
+                            teleported = true
                             logger:log(2, string.format("Teleported %s to (%.1f, %.1f, %.1f)", playerData.name, teleport.x, teleport.y, teleport.z))
                         else
-                            logger:log(1, string.format("Teleport failed for %s: %s", playerData.name, tostring(tpErr)))
+                            failure = tostring(tpErr)
+                            logger:log(1, string.format("Teleport failed for %s: %s", playerData.name, failure))
                         end
                     else
+                        failure = "PalUtility not available"
                         logger:log(1, string.format("Failed to get PalUtility for %s", playerData.name))
                     end
 
-                    -- Remove from queue
+                    -- Remove from queue and report the result to the bridge
                     table.remove(teleportQueue, i)
+                    SendTeleportResponse(teleport.requestId, playerData.name, teleported, failure, teleport.x, teleport.y, teleport.z)
                 end
             end
             ::continue::
@@ -112,6 +184,74 @@ local function ProcessTeleports()
     end
 end
 
+-- Queue teleports from a bridge response (from /teleport-queue or the /jobs push channel)
+local function QueueTeleportRequests(result)
+    -- Each teleport is a flat JSON object (requestId is missing on older bridges)
+    for entry in result:gmatch('{[^{}]*"sourcePlayer"[^{}]*}') do
+        local sourcePlayer = entry:match('"sourcePlayer"%s*:%s*"([^"]+)"')
+        local sourceSteamId = entry:match('"sourceSteamId"%s*:%s*"([^"]+)"') or ""
+        local targetPlayer = entry:match('"targetPlayer"%s*:%s*"([^"]+)"')
+        local x = entry:match('"x"%s*:%s*([%d%.%-]+)')
+        local y = entry:match('"y"%s*:%s*([%d%.%-]+)')
+        local z = entry:match('"z"%s*:%s*([%d%.%-]+)')
+        local requestId = entry:match('"requestId"%s*:%s*"([^"]+)"')
+        local expiresAt = tonumber(entry:match('"expiresAt"%s*:%s*(%d+)'))
+
+        if not sourcePlayer then
+            logger:log(1, "[TELEPORT] ERROR: Teleport without sourcePlayer: " .. entry)
+        elseif expiresAt and os.time() >= expiresAt then
+            -- The bridge has given up on it already: running it now would contradict the result Takaro got
+            logger:log(1, string.format("[TELEPORT] Dropping expired request %s for %s", tostring(requestId), sourcePlayer))
+        elseif requestId and IsRequestQueued(requestId) then
+            logger:log(3, string.format("[TELEPORT] Request %s already queued, waiting for %s", requestId, sourcePlayer))
+        elseif x and y and z then
+            -- Coordinate-based teleport
+            logger:log(2, string.format("[TELEPORT] Coordinate: %s (Steam: %s) -> (%.1f, %.1f, %.1f)", sourcePlayer, sourceSteamId, tonumber(x), tonumber(y), tonumber(z)))
+            QueueTeleport(sourcePlayer, tonumber(x), tonumber(y), tonumber(z), requestId, expiresAt)
+        elseif targetPlayer then
+            -- Player-to-player teleport: find target player by name
+            local PlayersList = FindAllOf("PalPlayerCharacter")
+            if not PlayersList then
+                logger:log(1, "[TELEPORT] ERROR: FindAllOf returned nil")
+            else
+                local targetFound = false
+                for _, TPlayer in ipairs(PlayersList) do
+                    -- ATOMIC EXTRACTION: Get name and location in one operation
+                    local targetData = nil
+                    local extractSuccess = pcall(function()
+                        -- Validate everything and extract atomically
+                        if TPlayer and TPlayer:IsValid() and
+                           TPlayer.PlayerState and TPlayer.PlayerState:IsValid() and
+                           TPlayer.PlayerState.PlayerNamePrivate then
+                            local name = TPlayer.PlayerState.PlayerNamePrivate:ToString()
+                            -- Get location immediately while object is still valid
+                            local loc = TPlayer:K2_GetActorLocation()
+                            targetData = {
+                                name = name,
+                                location = loc
+                            }
+                        end
+                    end)
+
+                    -- Check if extraction succeeded and name matches
+                    if extractSuccess and targetData and targetData.name == targetPlayer and targetData.location then
+                        targetFound = true
+                        logger:log(2, string.format("[TELEPORT] %s (Steam: %s) -> %s at (%.1f, %.1f, %.1f)",
+                            sourcePlayer, sourceSteamId, targetPlayer,
+                            targetData.location.X, targetData.location.Y, targetData.location.Z))
+                        QueueTeleport(sourcePlayer, targetData.location.X, targetData.location.Y, targetData.location.Z, requestId, expiresAt)
+                        break
+                    end
+                end
+                if not targetFound then
+                    logger:log(1, string.format("[TELEPORT] ERROR: Target player '%s' not found online", targetPlayer))
+                    SendTeleportResponse(requestId, sourcePlayer, false, string.format("Target player '%s' not found online", targetPlayer))
+                end
+            end
+        end
+    end
+end
+
 -- Fetch pending teleports from bridge
 local function FetchTeleportQueue()
     -- Silent polling - only log errors and actual activity
@@ -127,7 +267,7 @@ local function FetchTeleportQueue()
         end
 
         local url = string.format('http://%s/teleport-queue', bridgeHost)
-        local command = string.format('curl -s %s', url)
+        local command = string.format('curl -s%s %s', Utils.BridgeAuthHeader(), url)
         local handle = io.popen(command)
         if not handle then
             logger:log(1, "Failed to fetch teleport queue")
@@ -138,55 +278,7 @@ local function FetchTeleportQueue()
         handle:close()
 
         if result and result ~= "" and result ~= '{"teleports":[]}' then
-            -- Parse JSON response for teleports (now includes Steam IDs)
-
-            -- First, try to match coordinate-based teleports (JSON order: sourcePlayer, sourceSteamId, x, y, z)
-            for sourcePlayer, sourceSteamId, x, y, z in result:gmatch('"sourcePlayer"%s*:%s*"([^"]+)"%s*,[^}]*"sourceSteamId"%s*:%s*"([^"]+)"%s*,[^}]*"x"%s*:%s*([%d%.%-]+)%s*,[^}]*"y"%s*:%s*([%d%.%-]+)%s*,[^}]*"z"%s*:%s*([%d%.%-]+)') do
-                logger:log(2, string.format("[TELEPORT] Coordinate: %s (Steam: %s) -> (%.1f, %.1f, %.1f)", sourcePlayer, sourceSteamId, tonumber(x), tonumber(y), tonumber(z)))
-                QueueTeleport(sourcePlayer, tonumber(x), tonumber(y), tonumber(z))
-            end
-
-            -- Then, match player-to-player teleports (JSON order: sourcePlayer, sourceSteamId, targetPlayer, targetSteamId)
-            for sourcePlayer, sourceSteamId, targetPlayer, targetSteamId in result:gmatch('"sourcePlayer"%s*:%s*"([^"]+)"%s*,[^}]*"sourceSteamId"%s*:%s*"([^"]+)"%s*,[^}]*"targetPlayer"%s*:%s*"([^"]+)"%s*,[^}]*"targetSteamId"%s*:%s*"([^"]+)"') do
-                -- Find target player by name
-                local PlayersList = FindAllOf("PalPlayerCharacter")
-                if not PlayersList then
-                    logger:log(1, "[TELEPORT] ERROR: FindAllOf returned nil")
-                else
-                    local targetFound = false
-                    for _, TPlayer in ipairs(PlayersList) do
-                        -- ATOMIC EXTRACTION: Get name and location in one operation
-                        local targetData = nil
-                        local extractSuccess = pcall(function()
-                            -- Validate everything and extract atomically
-                            if TPlayer and TPlayer:IsValid() and
-                               TPlayer.PlayerState and TPlayer.PlayerState:IsValid() and
-                               TPlayer.PlayerState.PlayerNamePrivate then
-                                local name = TPlayer.PlayerState.PlayerNamePrivate:ToString()
-                                -- Get location immediately while object is still valid
-                                local loc = TPlayer:K2_GetActorLocation()
-                                targetData = {
-                                    name = name,
-                                    location = loc
-                                }
-                            end
-                        end)
-
-                        -- Check if extraction succeeded and name matches
-                        if extractSuccess and targetData and targetData.name == targetPlayer and targetData.location then
-                            targetFound = true
-                            logger:log(2, string.format("[TELEPORT] %s (Steam: %s) -> %s at (%.1f, %.1f, %.1f)",
-                                sourcePlayer, sourceSteamId, targetPlayer,
-                                targetData.location.X, targetData.location.Y, targetData.location.Z))
-                            QueueTeleport(sourcePlayer, targetData.location.X, targetData.location.Y, targetData.location.Z)
-                            break
-                        end
-                    end
-                    if not targetFound then
-                        logger:log(1, string.format("[TELEPORT] ERROR: Target player '%s' not found online", targetPlayer))
-                    end
-                end
-            end
+            QueueTeleportRequests(result)
         end
     end)
 
@@ -195,13 +287,27 @@ local function FetchTeleportQueue()
     end
 end
 
+-- Handle teleport jobs delivered over the push channel (jobs.lua)
+-- Teleports are only queued here; the loop below performs them
+function Teleport.HandleJobs(result)
+    local success, err = pcall(function()
+        QueueTeleportRequests(result)
+    end)
+
+    if not success then
+        logger:log(1, "Error processing teleport jobs: " .. tostring(err))
+    end
+end
+
 -- Initialize teleport system
 function Teleport.Initialize()
     logger:log(2, "Initializing teleport system...")
 
-    -- Poll bridge for teleports and process them every second
+    -- Poll bridge for teleports (unless the push channel delivers them) and process them every second
     LoopAsync(1000, function()
-        FetchTeleportQueue()
+        if not config.UsePushChannel then
+            FetchTeleportQueue()
+        end
         ProcessTeleports()
         return false
     end)
@@ -53,9 +53,23 @@ function Utils.ShouldSendCategory(category)
     return false
 end
 
+-- Auth header for bridge requests (empty when no token is configured)
+function Utils.BridgeAuthHeader()
+    if config.BridgeToken and config.BridgeToken ~= "" then
+        return string.format(' -H "X-Bridge-Token: %s"', config.BridgeToken)
+    end
+    return ""
+end
+
 -- Escape string for JSON
 function Utils.EscapeJSON(str)
     return str:gsub('\\', '\\\\'):gsub('"', '\\"'):gsub('\n', '\\n'):gsub('\r', '\\r')
 end
 
+-- Undo JSON string escapes in a value taken from a bridge response
+function Utils.UnescapeJSON(str)
+    local replacements = { ['"'] = '"', ['\\'] = '\\', ['/'] = '/', n = '\n', r = '\r', t = '\t' }
+    return (str:gsub('\\(["\\/nrt])', replacements))
+end
+
 return Utils
@@ -0,0 +1,153 @@
+-- Private message module - shows bridge messages in one player's chat
+local config = require("config")
+local Utils = require("utils")
+local logger = Utils.Logger:new()
+
+local Whisper = {}
+
+-- Show a system message in one player's chat
+-- Returns success plus an error message for the bridge
+function WhisperToPlayer(playerName, message)
+    local result, reason = false, "player not online"
+
+    local success, err = pcall(function()
+        local PalUtility = StaticFindObject("/Script/Pal.Default__PalUtility")
+        if not PalUtility or not PalUtility:IsValid() then
+            reason = "PalUtility not available"
+            return
+        end
+
+        local PlayersList = FindAllOf("PalPlayerCharacter")
+        if not PlayersList then
+            return
+        end
+
+        for _, Player in ipairs(PlayersList) do
+            if Player ~= nil and Player:IsValid() then
+                local playerState = Player.PlayerState
+                if playerState and playerState:IsValid() and playerState.PlayerNamePrivate:ToString() == playerName then
+                    PalUtility:SendSystemToPlayerChat(Player, message, playerState.PlayerUId)
+                    result = true
+                    return
+                end
+            end
+        end
+    end)
+
+    if not success then
+        logger:log(1, string.format("[WHISPER] Error sending message to %s: %s", playerName, tostring(err)))
+        return false, "the game rejected the message"
+    end
+
+    return result, reason
+end
+
+-- Send whisper result back to bridge
+function SendWhisperResponse(requestId, playerName, success, reason)
+    local bridgeHost = config.BridgeURL:match("http://([^/]+)")
+    if not bridgeHost then
+        return
+    end
+
+    local json = string.format(
+        '{"requestId":"%s","playerName":"%s","success":%s,"error":"%s","timestamp":"%s"}',
+        requestId,
+        Utils.EscapeJSON(playerName),
+        tostring(success),
+        success and "" or reason,
+        os.date("!%Y-%m-%dT%H:%M:%SZ")
+    )
+
+    local jsonEscaped = json:gsub('"', '\\"')
+    local curlCommand = string.format(
+        'curl -s -m 3%s -X POST -H "Content-Type: application/json" -d "%s" http://%s/whisper-response',
+        Utils.BridgeAuthHeader(),
+        jsonEscaped,
+        bridgeHost
+    )
+
+    local handle = io.popen(curlCommand .. ' 2>&1')
+    if handle then
+        handle:read("*a")
+        handle:close()
+        logger:log(3, string.format("[WHISPER] Sent response for request %s", requestId))
+    end
+end
+
+-- Deliver queued whispers (from /whisper-queue or the /jobs push channel)
+local function ProcessWhisperRequests(result)
+    -- Format: {"requests":[{"playerName":"...", "message":"...", "requestId":"..."}]}
+    for playerName, message, requestId in result:gmatch('"playerName"%s*:%s*"([^"]+)"%s*,%s*"message"%s*:%s*"(.-)"%s*,%s*"requestId"%s*:%s*"([^"]+)"') do
+        local text = Utils.UnescapeJSON(message)
+        logger:log(2, string.format("[WHISPER] Processing request %s for %s", requestId, playerName))
+
+        local success, reason = WhisperToPlayer(playerName, text)
+        if not success then
+            logger:log(1, string.format("[WHISPER] Could not message %s: %s", playerName, reason))
+        end
+
+        SendWhisperResponse(requestId, playerName, success, reason)
+    end
+end
+
+-- Fetch whispers from bridge
+local function FetchWhisperRequests()
+    if not config.EnableBridge then
+        return
+    end
+
+    local success, err = pcall(function()
+        local bridgeHost = config.BridgeURL:match("http://([^/]+)")
+        if not bridgeHost then
+            logger:log(1, "[WHISPER] Could not extract bridge host from URL")
+            return
+        end
+
+        local url = string.format('http://%s/whisper-queue', bridgeHost)
+        local command = string.format('curl -s%s %s', Utils.BridgeAuthHeader(), url)
+        local handle = io.popen(command)
+        if not handle then
+            logger:log(1, "[WHISPER] Failed to fetch whisper queue")
+            return
+        end
+
+        local result = handle:read("*a")
+        handle:close()
+
+        if result and result ~= "" and result ~= '{"requests":[]}' then
+            ProcessWhisperRequests(result)
+        end
+    end)
+
+    if not success then
+        logger:log(1, "[WHISPER] Error fetching whispers: " .. tostring(err))
+    end
+end
+
+-- Handle whisper jobs delivered over the push channel (jobs.lua)
+function Whisper.HandleJobs(result)
+    local success, err = pcall(function()
+        ProcessWhisperRequests(result)
+    end)
+
+    if not success then
+        logger:log(1, "[WHISPER] Error processing whisper jobs: " .. tostring(err))
+    end
+end
+
+-- Initialize private messages
+function Whisper.Initialize()
+    logger:log(2, "[WHISPER] Initializing private messages...")
+
+    -- Poll bridge for whispers every second (older bridges without /jobs)
+    if not config.UsePushChannel then
+        LoopAsync(1000, function()
+            FetchWhisperRequests()
+            return false
+        end)
+    end
+
+    logger:log(2, "[WHISPER] Private messages initialized")
+end
+
+return Whisper
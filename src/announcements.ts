@@ -0,0 +1,202 @@
+import { logger } from './logger';
+
+/**
+ * Formatting of server announcements and private messages
+ *
+ * Palworld shows announcements as plain text, so Discord markdown, mentions and
+ * emoji (which arrive through Takaro's Discord relay) are stripped or converted
+ * first, and long messages are split into chunks that are announced in order.
+ * Placeholders are only filled in for operator-defined text (console, scheduled
+ * tasks, named templates), never for text relayed from players or Discord:
+ *   {player}      Recipient of a private message (left as-is in announcements)
+ *   {online}      Number of online players
+ *   {players}     Names of the online players
+ *   {servername}  Server name from /v1/api/info
+ *   {version}     Server version from /v1/api/info
+ * Named templates come from ANNOUNCE_TEMPLATE_<NAME> config entries.
+ */
+
+export interface AnnouncementOptions {
+  maxLength: number;                    // Longest single announcement (characters)
+  templates: Record<string, string>;    // Lowercase template name -> text
+}
+
+export interface RenderOptions {
+  player?: string;         // Value for {player}
+  placeholders?: boolean;  // Fill placeholders (operator-defined text only)
+}
+
+export interface AnnouncementActions {
+  announce: (message: string) => Promise<void>;
+  getServerInfo: () => Promise<{ servername: string; version: string }>;
+  getPlayers: () => Promise<Array<{ name: string }>>;
+}
+
+const PLACEHOLDER_PATTERN = /\{(player|online|players|servername|version)\}/g;
+
+// Unicode emoji, including flags, skin tones, keycaps and joiners
+const EMOJI_PATTERN = /[\p{Extended_Pictographic}\u{1F1E6}-\u{1F1FF}\u{1F3FB}-\u{1F3FF}\u{20E3}\u{FE0F}\u{200D}]/gu;
+
+// Markdown characters a Discord user escaped to show literally
+const ESCAPE_BASE = 0xE000;
+const ESCAPABLE = '*_~`|>#\\';
+
+let options: AnnouncementOptions = { maxLength: 200, templates: {} };
+let actions: AnnouncementActions;
+
+/**
+ * Set the chunk length, the named templates and the actions used to send and fill announcements
+ */
+export function initAnnouncements(announcementOptions: AnnouncementOptions, announcementActions: AnnouncementActions) {
+  options = announcementOptions;
+  actions = announcementActions;
+
+  const names = Object.keys(options.templates);
+  if (names.length > 0) {
+    logger.info(`[ANNOUNCE] Loaded ${names.length} announcement template(s): ${names.join(', ')}`);
+  }
+}
+
+export function getTemplate(name: string): string | undefined {
+  return options.templates[name.toLowerCase()];
+}
+
+export function listTemplates(): Array<{ name: string; text: string }> {
+  return Object.entries(options.templates).map(([name, text]) => ({ name, text }));
+}
+
+/**
+ * Turn Discord-flavoured text into a single line of plain text
+ */
+export function sanitizeMessage(text: string): string {
+  const protectedText = text.replace(/\\([*_~`|>#\\])/g, (_, char: string) =>
+    String.fromCharCode(ESCAPE_BASE + ESCAPABLE.indexOf(char))
+  );
+
+  const plain = protectedText
+    .replace(/```(?:[\w-]*\n)?([\s\S]*?)```/g, '$1')                 // Code blocks
+    .replace(/`([^`\n]+)`/g, '$1')                                      // Inline code
+    .replace(/<a?:(\w+):\d+>/g, ':$1:')                                 // Custom emoji
+    .replace(/<@!?\d+>/g, '@user')                                      // User mentions
+    .replace(/<@&\d+>/g, '@role')                                       // Role mentions
+    .replace(/<#\d+>/g, '#channel')                                     // Channel links
+    .replace(/<t:(\d+)(?::[tTdDfFR])?>/g, (_, seconds: string) =>      // Timestamps
+      new Date(parseInt(seconds, 10) * 1000).toISOString().slice(0, 16).replace('T', ' ') + ' UTC'
+    )
+    .replace(/@(everyone|here)\b/g, '$1')
+    .replace(/\[([^\]\n]+)\]\(<?(https?:\/\/[^)\s>]+)>?\)/g, '$1 ($2)') // Masked links
+    .replace(/<(https?:\/\/[^>\s]+)>/g, '$1')                           // Links without embed
+    .replace(/\|\|(.+?)\|\|/g, '$1')                                    // Spoilers
+    .replace(/(\*\*\*|\*\*|\*|__|~~)(?=\S)(.+?)(?<=\S)\1/g, '$2')       // Bold, italic, underline, strikethrough
+    .replace(/(^|\s)_(?=\S)(.+?)(?<=\S)_(?=\s|$)/g, '$1$2')             // _italic_, but not snake_case names
+    .replace(/^[ \t]*(?:#{1,3}|-#)[ \t]+/gm, '')                        // Headings and subtext
+    .replace(/^[ \t]*>{1,3}[ \t]?/gm, '')                               // Quotes
+    .replace(EMOJI_PATTERN, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return plain.replace(/[\uE000-\uE007]/g, char => ESCAPABLE[char.charCodeAt(0) - ESCAPE_BASE]);
+}
+
+/**
+ * Split a message at word boundaries into chunks of at most maxLength characters
+ */
+export function splitMessage(text: string, maxLength: number): string[] {
+  if (text.length <= maxLength) {
+    return text ? [text] : [];
+  }
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const word of text.split(' ')) {
+    let rest = word;
+    // Words longer than a whole chunk (links, mostly) are cut
+    while (rest.length > maxLength) {
+      if (current) {
+        chunks.push(current);
+        current = '';
+      }
+      chunks.push(rest.slice(0, maxLength));
+      rest = rest.slice(maxLength);
+    }
+
+    if (!current) {
+      current = rest;
+    } else if (current.length + 1 + rest.length <= maxLength) {
+      current += ` ${rest}`;
+    } else {
+      chunks.push(current);
+      current = rest;
+    }
+  }
+  if (current) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+/**
+ * Fill the placeholders used in the text; server info and players are only fetched when needed
+ */
+async function fillPlaceholders(text: string, player?: string): Promise<string> {
+  const used = new Set(Array.from(text.matchAll(PLACEHOLDER_PATTERN), match => match[1]));
+  if (used.size === 0) {
+    return text;
+  }
+
+  const values: Record<string, string> = {};
+  if (player) {
+    values.player = player;
+  }
+
+  if (used.has('online') || used.has('players')) {
+    try {
+      const players = await actions.getPlayers();
+      values.online = String(players.length);
+      values.players = players.map(p => p.name).join(', ') || 'nobody';
+    } catch (error: any) {
+      logger.warn(`[ANNOUNCE] Could not get the player list for {online}/{players}: ${error.message}`);
+    }
+  }
+
+  if (used.has('servername') || used.has('version')) {
+    try {
+      const info = await actions.getServerInfo();
+      values.servername = info.servername;
+      values.version = info.version;
+    } catch (error: any) {
+      logger.warn(`[ANNOUNCE] Could not get server info for {servername}/{version}: ${error.message}`);
+    }
+  }
+
+  // Single pass, and placeholders without a value are left as they were
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder, key: string) => values[key] ?? placeholder);
+}
+
+/**
+ * Sanitize a message and, for operator-defined text, fill its placeholders
+ */
+export async function renderMessage(text: string, renderOptions: RenderOptions = {}): Promise<string> {
+  const plain = sanitizeMessage(text);
+  return renderOptions.placeholders ? fillPlaceholders(plain, renderOptions.player) : plain;
+}
+
+/**
+ * Render a message and announce it, split into ordered chunks if it is too long
+ * Returns the chunks that were announced.
+ */
+export async function announce(text: string, renderOptions: RenderOptions = {}): Promise<string[]> {
+  const chunks = splitMessage(await renderMessage(text, renderOptions), options.maxLength);
+  if (chunks.length === 0) {
+    throw new Error('Message is empty after formatting');
+  }
+
+  // One at a time, so the chunks show up in order
+  for (const chunk of chunks) {
+    await actions.announce(chunk);
+  }
+  if (chunks.length > 1) {
+    logger.debug(`[ANNOUNCE] Announced a long message in ${chunks.length} parts`);
+  }
+  return chunks;
+}
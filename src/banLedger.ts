@@ -0,0 +1,191 @@
+import * as fs from 'fs';
+import { logger } from './logger';
+import { loadJson, saveJson } from './jsonStore';
+import * as playerRegistry from './playerRegistry';
+
+/**
+ * Ban ledger (data/bans.json)
+ *
+ * Palworld's REST API can ban and unban but cannot list bans, so the bridge keeps
+ * its own record of who was banned, why, by whom and until when. The ledger can be
+ * synced with the server's banlist.txt (one user ID per line).
+ */
+
+export interface BanEntry {
+  userId: string;
+  name: string;
+  reason: string;
+  issuer: string;
+  createdAt: string;
+  expiresAt: string | null;    // null = permanent
+}
+
+interface BanLedgerFile {
+  version: number;
+  bans: Record<string, BanEntry>;
+}
+
+const BAN_LEDGER_FILE = 'bans.json';
+const EXPIRY_CHECK_INTERVAL = 30000;
+
+let ledger: BanLedgerFile = { version: 1, bans: {} };
+let expiryInterval: NodeJS.Timeout | null = null;
+let expiryCheckRunning = false;
+
+/**
+ * Load the ban ledger from disk
+ */
+export function initBanLedger() {
+  ledger = loadJson<BanLedgerFile>(BAN_LEDGER_FILE, { version: 1, bans: {} });
+  logger.info(`Ban ledger loaded (${Object.keys(ledger.bans).length} bans)`);
+}
+
+function saveLedger() {
+  saveJson(BAN_LEDGER_FILE, ledger);
+}
+
+/**
+ * Record a ban (replaces any existing entry for the same user)
+ */
+export function addBan(ban: Omit<BanEntry, 'createdAt'> & { createdAt?: string }): BanEntry {
+  const entry: BanEntry = {
+    ...ban,
+    createdAt: ban.createdAt || new Date().toISOString()
+  };
+  ledger.bans[entry.userId] = entry;
+  saveLedger();
+  logger.info(`[BANS] Recorded ban for ${entry.name} (${entry.userId}) by ${entry.issuer}: ${entry.reason}${entry.expiresAt ? ` until ${entry.expiresAt}` : ''}`);
+  return entry;
+}
+
+/**
+ * Remove a ban from the ledger, returning the removed entry
+ */
+export function removeBan(userId: string): BanEntry | undefined {
+  const entry = ledger.bans[userId];
+  if (entry) {
+    delete ledger.bans[userId];
+    saveLedger();
+    logger.info(`[BANS] Removed ban for ${entry.name} (${userId})`);
+  }
+  return entry;
+}
+
+export function getBan(userId: string): BanEntry | undefined {
+  return ledger.bans[userId];
+}
+
+/**
+ * Find a ban by user ID or banned player name (case-insensitive)
+ */
+export function findBan(identifier: string): BanEntry | undefined {
+  const lower = identifier.toLowerCase();
+  return ledger.bans[identifier] || Object.values(ledger.bans).find(ban => ban.name.toLowerCase() === lower);
+}
+
+/**
+ * All bans, newest first
+ */
+export function listBans(): BanEntry[] {
+  return Object.values(ledger.bans).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Bans in Takaro's listBans format
+ */
+export function toTakaroBans() {
+  return listBans().map(ban => ({
+    player: {
+      gameId: ban.userId,
+      name: ban.name,
+      steamId: ban.userId,
+      platformId: `palworld:${ban.userId}`
+    },
+    reason: ban.reason,
+    expiresAt: ban.expiresAt
+  }));
+}
+
+/**
+ * Import user IDs from a banlist.txt file
+ * Only adds users the ledger doesn't know yet; returns the number added
+ */
+export function importBanlist(filePath: string): number {
+  const content = fs.readFileSync(filePath, 'utf-8');
+  let added = 0;
+
+  for (const rawLine of content.split('\n')) {
+    const userId = rawLine.trim();
+    if (!userId || userId.startsWith('#') || ledger.bans[userId]) {
+      continue;
+    }
+
+    ledger.bans[userId] = {
+      userId,
+      name: playerRegistry.getRegisteredPlayer(userId)?.name || userId,
+      reason: 'Imported from banlist.txt',
+      issuer: 'banlist.txt',
+      createdAt: new Date().toISOString(),
+      expiresAt: null
+    };
+    added++;
+  }
+
+  if (added > 0) {
+    saveLedger();
+  }
+  logger.info(`[BANS] Imported ${added} bans from ${filePath}`);
+  return added;
+}
+
+/**
+ * Write all ledger bans to a banlist.txt file; returns the number written
+ */
+export function exportBanlist(filePath: string): number {
+  const userIds = listBans().map(ban => ban.userId);
+  fs.writeFileSync(filePath, userIds.join('\n') + (userIds.length > 0 ? '\n' : ''));
+  logger.info(`[BANS] Exported ${userIds.length} bans to ${filePath}`);
+  return userIds.length;
+}
+
+/**
+ * Periodically lift temporary bans whose expiry has passed
+ *
+ * Expiries live in the ledger on disk, so bans that ran out while the bridge was
+ * down are lifted on the first check after startup. If the unban call fails
+ * (server offline), the ban stays in the ledger and is retried on the next check.
+ */
+export function startBanExpiryScheduler(unban: (ban: BanEntry) => Promise<boolean>) {
+  const checkExpiredBans = async () => {
+    if (expiryCheckRunning) {
+      return;
+    }
+    expiryCheckRunning = true;
+
+    try {
+      const now = Date.now();
+      const expired = Object.values(ledger.bans).filter(ban =>
+        ban.expiresAt && new Date(ban.expiresAt).getTime() <= now
+      );
+
+      for (const ban of expired) {
+        logger.info(`[BANS] Temporary ban for ${ban.name} (${ban.userId}) expired at ${ban.expiresAt}, unbanning`);
+        const lifted = await unban(ban);
+        if (!lifted) {
+          logger.warn(`[BANS] Failed to lift expired ban for ${ban.name} (${ban.userId}), will retry`);
+        }
+      }
+    } finally {
+      expiryCheckRunning = false;
+    }
+  };
+
+  if (expiryInterval) {
+    clearInterval(expiryInterval);
+  }
+  expiryInterval = setInterval(checkExpiredBans, EXPIRY_CHECK_INTERVAL);
+  checkExpiredBans();
+
+  const pending = Object.values(ledger.bans).filter(ban => ban.expiresAt).length;
+  logger.info(`[BANS] Ban expiry scheduler started (${pending} temporary bans pending)`);
+}
@@ -0,0 +1,74 @@
+/**
+ * Name lookup shared by the bundled catalogs (items, Pals)
+ *
+ * Only an exact ID, exact name or normalized match ("pal sphere" for "Pal Sphere")
+ * resolves to an entry. Many valid IDs differ from a catalog entry by a character
+ * or two (Wood2, Cloth2), so substring and edit-distance matches are only returned
+ * as suggestions (up to MAX_SUGGESTIONS), never resolved automatically.
+ */
+
+export interface CatalogEntry {
+  id: string;
+  name: string;
+}
+
+export interface CatalogMatch<T extends CatalogEntry> {
+  entry: T | null;
+  suggestions: T[];  // Closest entries when the query was ambiguous or unknown
+}
+
+const MAX_EDIT_DISTANCE = 2;
+const MAX_SUGGESTIONS = 5;
+
+/**
+ * Lowercase and drop everything but letters and digits ("Pal Sphere" == "pal_sphere")
+ */
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+export function searchCatalog<T extends CatalogEntry>(entries: T[], query: string): CatalogMatch<T> {
+  const exact = entries.find(entry => entry.id === query) ||
+    entries.find(entry => entry.name.toLowerCase() === query.toLowerCase());
+  if (exact) {
+    return { entry: exact, suggestions: [] };
+  }
+
+  const normalized = normalize(query);
+  if (!normalized) {
+    return { entry: null, suggestions: [] };
+  }
+
+  const normalizedMatch = entries.find(entry => normalize(entry.id) === normalized || normalize(entry.name) === normalized);
+  if (normalizedMatch) {
+    return { entry: normalizedMatch, suggestions: [] };
+  }
+
+  const partial = entries.filter(entry => normalize(entry.id).includes(normalized) || normalize(entry.name).includes(normalized));
+  const ranked = entries
+    .filter(entry => !partial.includes(entry))
+    .map(entry => ({ entry, distance: Math.min(editDistance(normalized, normalize(entry.id)), editDistance(normalized, normalize(entry.name))) }))
+    .filter(candidate => candidate.distance <= MAX_EDIT_DISTANCE)
+    .sort((a, b) => a.distance - b.distance)
+    .map(candidate => candidate.entry);
+
+  return { entry: null, suggestions: [...partial, ...ranked].slice(0, MAX_SUGGESTIONS) };
+}
@@ -0,0 +1,143 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from './logger';
+import { dataDir } from './jsonStore';
+
+/**
+ * Persistent chat history (data/chat-history.jsonl)
+ *
+ * Every chat message is appended as one JSON line, independent of the hourly log
+ * files. Entries older than the retention period (or beyond the entry limit) are
+ * dropped when the file is compacted at startup and once an hour.
+ */
+
+export interface ChatEntry {
+  timestamp: string;
+  gameId: string | null;   // null if the bridge couldn't identify the player
+  name: string;
+  category: number;        // 1 = Say, 2 = Guild, 3 = Global
+  message: string;
+  relayed: boolean;        // false if moderation or routing kept it from Takaro
+}
+
+export interface ChatHistoryOptions {
+  retention: number;       // ms
+  maxEntries: number;
+}
+
+export interface ChatQuery {
+  gameId?: string;
+  name?: string;
+  since?: number;          // Epoch ms
+  grep?: string;           // Case-insensitive substring
+}
+
+export type ChatExportFormat = 'csv' | 'json';
+
+const HISTORY_FILE = 'chat-history.jsonl';
+const COMPACT_INTERVAL = 60 * 60 * 1000;
+
+const historyPath = path.join(dataDir, HISTORY_FILE);
+let options: ChatHistoryOptions = { retention: 30 * 24 * 60 * 60 * 1000, maxEntries: 100000 };
+let entries: ChatEntry[] = [];
+
+/**
+ * Load the history, drop expired entries and start the hourly compaction
+ */
+export function initChatHistory(historyOptions: ChatHistoryOptions) {
+  options = historyOptions;
+  entries = [];
+  fs.mkdirSync(dataDir, { recursive: true });
+
+  if (fs.existsSync(historyPath)) {
+    let skipped = 0;
+    for (const line of fs.readFileSync(historyPath, 'utf-8').split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        entries.push(JSON.parse(line) as ChatEntry);
+      } catch {
+        skipped++; // Partial line from a crash mid-append
+      }
+    }
+    if (skipped > 0) {
+      logger.warn(`[CHATLOG] Skipped ${skipped} unreadable line(s) in ${HISTORY_FILE}`);
+    }
+  }
+
+  compactHistory();
+  setInterval(compactHistory, COMPACT_INTERVAL);
+  logger.info(`Chat history loaded (${entries.length} messages, retention: ${options.retention / 3600000}h)`);
+}
+
+/**
+ * Drop expired entries and rewrite the file (temp file + rename, like saveJson)
+ */
+function compactHistory() {
+  const cutoff = Date.now() - options.retention;
+  const before = entries.length;
+  entries = entries.filter(entry => new Date(entry.timestamp).getTime() >= cutoff);
+  if (entries.length > options.maxEntries) {
+    entries = entries.slice(entries.length - options.maxEntries);
+  }
+  if (entries.length === before) {
+    return;
+  }
+
+  try {
+    const tempPath = `${historyPath}.tmp`;
+    fs.writeFileSync(tempPath, entries.map(entry => JSON.stringify(entry) + '\n').join(''));
+    fs.renameSync(tempPath, historyPath);
+    logger.info(`[CHATLOG] Removed ${before - entries.length} expired chat messages`);
+  } catch (error: any) {
+    logger.error(`[CHATLOG] Failed to compact ${HISTORY_FILE}: ${error.message}`);
+  }
+}
+
+/**
+ * Append a chat message to the history
+ */
+export function recordChat(entry: ChatEntry) {
+  entries.push(entry);
+  try {
+    fs.appendFileSync(historyPath, JSON.stringify(entry) + '\n');
+  } catch (error: any) {
+    logger.error(`[CHATLOG] Failed to write ${HISTORY_FILE}: ${error.message}`);
+  }
+}
+
+/**
+ * Messages matching all given filters, oldest first
+ */
+export function queryChat(query: ChatQuery): ChatEntry[] {
+  const name = query.name?.toLowerCase();
+  const grep = query.grep?.toLowerCase();
+  return entries.filter(entry =>
+    (!query.gameId || entry.gameId === query.gameId) &&
+    (!name || entry.name.toLowerCase() === name) &&
+    (!query.since || new Date(entry.timestamp).getTime() >= query.since) &&
+    (!grep || entry.message.toLowerCase().includes(grep))
+  );
+}
+
+function csvField(value: string | number | boolean | null): string {
+  const text = value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Write messages to a CSV or JSON file
+ */
+export function exportChat(chatEntries: ChatEntry[], format: ChatExportFormat, filePath: string) {
+  if (format === 'json') {
+    fs.writeFileSync(filePath, JSON.stringify(chatEntries, null, 2));
+  } else {
+    const header = 'timestamp,gameId,name,category,message,relayed';
+    const rows = chatEntries.map(entry =>
+      [entry.timestamp, entry.gameId, entry.name, entry.category, entry.message, entry.relayed].map(csvField).join(',')
+    );
+    fs.writeFileSync(filePath, [header, ...rows].join('\n') + '\n');
+  }
+  logger.info(`[CHATLOG] Exported ${chatEntries.length} chat messages to ${filePath}`);
+}
@@ -0,0 +1,88 @@
+import { logger } from './logger';
+
+/**
+ * Routing of in-game chat to Takaro, per Palworld chat category
+ *
+ * Each category (1 = Say, 2 = Guild, 3 = Global) maps to a Takaro chat channel
+ * or "off" to keep it out of Takaro, plus a format for the forwarded message:
+ *   CHAT_ROUTE_SAY=global           CHAT_FORMAT_SAY={message}
+ *   CHAT_ROUTE_GUILD=team           CHAT_FORMAT_GUILD=[{guild}] {message}
+ *   CHAT_ROUTE_GLOBAL=global        CHAT_FORMAT_GLOBAL={message}
+ * Formats can use {message}, {player}, {guild} and {category}.
+ */
+
+// Chat channels Takaro accepts on chat-message events
+export type TakaroChatChannel = 'global' | 'team' | 'friends' | 'whisper';
+
+export interface ChatRoute {
+  category: number;
+  label: string;                     // Palworld category name, also the config key suffix
+  channel: TakaroChatChannel | null; // null = not forwarded
+  format: string;
+}
+
+export interface ChatMessageContext {
+  message: string;
+  player: string;
+  guild?: string;
+}
+
+const TAKARO_CHANNELS: TakaroChatChannel[] = ['global', 'team', 'friends', 'whisper'];
+
+const routes = new Map<number, ChatRoute>([
+  [1, { category: 1, label: 'Say', channel: 'global', format: '{message}' }],
+  [2, { category: 2, label: 'Guild', channel: 'team', format: '[{guild}] {message}' }],
+  [3, { category: 3, label: 'Global', channel: 'global', format: '{message}' }]
+]);
+
+// Categories the mod may add later are forwarded like global chat
+const FALLBACK_ROUTE: ChatRoute = { category: 0, label: 'Unknown', channel: 'global', format: '{message}' };
+
+/**
+ * Apply CHAT_ROUTE_* / CHAT_FORMAT_* config entries over the defaults
+ */
+export function initChatRouting(configEnv: NodeJS.ProcessEnv) {
+  for (const route of routes.values()) {
+    const key = route.label.toUpperCase();
+
+    const channel = configEnv[`CHAT_ROUTE_${key}`]?.trim().split(/\s+/)[0].toLowerCase();
+    if (channel === 'off') {
+      route.channel = null;
+    } else if (channel && TAKARO_CHANNELS.includes(channel as TakaroChatChannel)) {
+      route.channel = channel as TakaroChatChannel;
+    } else if (channel) {
+      logger.warn(`[CHAT] Ignoring CHAT_ROUTE_${key}=${channel} (expected ${TAKARO_CHANNELS.join(', ')} or off)`);
+    }
+
+    const format = configEnv[`CHAT_FORMAT_${key}`];
+    if (format !== undefined) {
+      route.format = format.includes('{message}') ? format : `${format} {message}`;
+    }
+  }
+
+  const summary = Array.from(routes.values())
+    .map(route => `${route.label} -> ${route.channel || 'off'}`)
+    .join(', ');
+  logger.info(`[CHAT] Chat routing: ${summary}`);
+}
+
+/**
+ * Route for a Palworld chat category
+ */
+export function getChatRoute(category: number): ChatRoute {
+  return routes.get(category) || FALLBACK_ROUTE;
+}
+
+/**
+ * Apply the route's format to a chat message
+ */
+export function formatChatMessage(route: ChatRoute, context: ChatMessageContext): string {
+  const values: Record<string, string> = {
+    message: context.message,
+    player: context.player,
+    guild: context.guild || 'Guild',
+    category: route.label
+  };
+  // Single pass, so placeholders inside player names or messages are left alone
+  return route.format.replace(/\{(message|player|guild|category)\}/g, (_, key: string) => values[key]);
+}
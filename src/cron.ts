@@ -0,0 +1,144 @@
+/**
+ * Minimal 5-field cron expression parser (minute hour day-of-month month day-of-week)
+ *
+ * Supports *, lists (1,15), ranges (1-5), steps (*\/15, 0-30/10) and the usual
+ * macros (@hourly, @daily, ...). Times are evaluated in the bridge host's local time.
+ */
+
+export interface CronExpression {
+  source: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+};
+
+const FIELD_RANGES: Array<[string, number, number]> = [
+  ['minute', 0, 59],
+  ['hour', 0, 23],
+  ['day of month', 1, 31],
+  ['month', 1, 12],
+  ['day of week', 0, 7]
+];
+
+/**
+ * Parse one cron field into the set of values it matches
+ */
+function parseField(field: string, name: string, min: number, max: number): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart !== undefined ? parseInt(stepPart, 10) : 1;
+    if (isNaN(step) || step < 1) {
+      throw new Error(`Invalid step "${stepPart}" in ${name} field`);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = min;
+      end = max;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-');
+      start = parseInt(from, 10);
+      end = parseInt(to, 10);
+    } else {
+      start = parseInt(rangePart, 10);
+      end = stepPart !== undefined ? max : start;
+    }
+
+    if (isNaN(start) || isNaN(end) || start < min || end > max || start > end) {
+      throw new Error(`Invalid ${name} "${part}" (allowed ${min}-${max})`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression, throwing a descriptive error if it is invalid
+ */
+export function parseCron(expression: string): CronExpression {
+  const source = expression.trim();
+  const expanded = MACROS[source.toLowerCase()] || source;
+  const fields = expanded.split(/\s+/);
+
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression "${source}" must have 5 fields (minute hour day month weekday) or be a macro like @hourly`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) => {
+    const [name, min, max] = FIELD_RANGES[index];
+    return parseField(field, name, min, max);
+  });
+
+  // 7 is an alias for Sunday
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    source,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    domRestricted: fields[2] !== '*',
+    dowRestricted: fields[4] !== '*'
+  };
+}
+
+/**
+ * Check whether a date (to the minute) matches the expression
+ * Like standard cron, when both day fields are restricted either one may match
+ */
+export function cronMatches(cron: CronExpression, date: Date): boolean {
+  if (!cron.minutes.has(date.getMinutes()) || !cron.hours.has(date.getHours()) || !cron.months.has(date.getMonth() + 1)) {
+    return false;
+  }
+
+  const domMatch = cron.daysOfMonth.has(date.getDate());
+  const dowMatch = cron.daysOfWeek.has(date.getDay());
+
+  if (cron.domRestricted && cron.dowRestricted) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+/**
+ * Find the next matching minute after the given date (searches up to ~1 year ahead)
+ */
+export function nextCronRun(cron: CronExpression, after: Date = new Date()): Date | null {
+  const candidate = new Date(after.getTime());
+  candidate.setSeconds(0, 0);
+  candidate.setMinutes(candidate.getMinutes() + 1);
+
+  for (let i = 0; i < 366 * 24 * 60; i++) {
+    if (cronMatches(cron, candidate)) {
+      return candidate;
+    }
+    candidate.setMinutes(candidate.getMinutes() + 1);
+  }
+  return null;
+}
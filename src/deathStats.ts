@@ -0,0 +1,79 @@
+import { logger } from './logger';
+import { loadJson, saveJson } from './jsonStore';
+
+/**
+ * Per-player death statistics (data/deaths.json)
+ *
+ * Every player-death event the mod reports is counted per player (by gameId),
+ * together with the cause if the mod knows it. The last few deaths are kept with
+ * their position for the "deaths <player>" console command.
+ */
+
+export interface DeathPosition {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface Death {
+  timestamp: string;
+  position?: DeathPosition;
+  positionSource?: 'mod' | 'last-known';  // Reported by the mod at the time of death, or the last player poll
+  cause?: string;
+  attacker?: string;
+}
+
+export interface PlayerDeaths {
+  name: string;
+  deaths: number;
+  causes: Record<string, number>;  // Cause -> count ("unknown" if the mod didn't say)
+  recent: Death[];                 // Newest first
+}
+
+interface DeathFile {
+  version: number;
+  players: Record<string, PlayerDeaths>;  // Keyed by gameId
+}
+
+const DEATHS_FILE = 'deaths.json';
+const RECENT_DEATHS = 10;
+
+let store: DeathFile = { version: 1, players: {} };
+
+/**
+ * Load death statistics from disk
+ */
+export function initDeathStats() {
+  store = loadJson<DeathFile>(DEATHS_FILE, { version: 1, players: {} });
+  logger.info(`Death statistics loaded (${Object.keys(store.players).length} players)`);
+}
+
+/**
+ * Count a death for a player and return their updated statistics
+ */
+export function recordDeath(gameId: string, name: string, death: Death): PlayerDeaths {
+  const stats = store.players[gameId] || { name, deaths: 0, causes: {}, recent: [] };
+  const cause = death.cause || 'unknown';
+
+  stats.name = name;
+  stats.deaths++;
+  stats.causes[cause] = (stats.causes[cause] || 0) + 1;
+  stats.recent = [death, ...stats.recent].slice(0, RECENT_DEATHS);
+
+  store.players[gameId] = stats;
+  saveJson(DEATHS_FILE, store);
+  return stats;
+}
+
+export function getDeathStats(gameId: string): PlayerDeaths | undefined {
+  return store.players[gameId];
+}
+
+/**
+ * All players with recorded deaths, most deaths first
+ */
+export function listDeathStats(): Array<PlayerDeaths & { gameId: string }> {
+  return Object.entries(store.players)
+    .map(([gameId, stats]) => ({ gameId, ...stats }))
+    .sort((a, b) => b.deaths - a.deaths);
+}
@@ -0,0 +1,133 @@
+import { logger } from './logger';
+import { loadJson, saveJson } from './jsonStore';
+
+/**
+ * Item and Pal delivery ledger (data/deliveries.json)
+ *
+ * Every giveItem is recorded under an idempotency key (shop order ID, Takaro
+ * request ID, or the bridge's own request ID when the caller sends none). A
+ * repeated giveItem with a known key returns the recorded outcome instead of
+ * queuing the item again, so Takaro retries can't hand out a purchase twice.
+ * Pal gives are recorded under their request ID.
+ *
+ * Takaro is told a give is pending when the mod doesn't answer in time. If its
+ * job is dead-lettered later, the delivery is marked failed and reported, so the
+ * purchase can be refunded or retried instead of being silently lost.
+ */
+
+export type DeliveryStatus = 'pending' | 'delivered' | 'failed';
+export type DeliveryType = 'item' | 'pal';
+
+export interface Delivery {
+  key: string;           // Idempotency key
+  requestId: string;     // Item/Pal job and mod request ID
+  type?: DeliveryType;   // Missing on entries from older versions (items)
+  playerId: string;      // gameId
+  playerName: string;
+  itemId: string;        // Item or Pal ID
+  quantity: number;
+  status: DeliveryStatus;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DeliveryLedgerActions {
+  report: (message: string) => void;  // Undelivered gives (sent to Takaro's event log)
+}
+
+interface DeliveryLedgerFile {
+  version: number;
+  deliveries: Record<string, Delivery>;
+}
+
+const DELIVERY_LEDGER_FILE = 'deliveries.json';
+const MAX_DELIVERIES = 10000; // Oldest entries are dropped beyond this
+
+let ledger: DeliveryLedgerFile = { version: 1, deliveries: {} };
+let actions: DeliveryLedgerActions = { report: () => {} };
+
+/**
+ * Load the delivery ledger from disk and set where undelivered gives are reported
+ */
+export function initDeliveryLedger(ledgerActions: DeliveryLedgerActions) {
+  actions = ledgerActions;
+  ledger = loadJson<DeliveryLedgerFile>(DELIVERY_LEDGER_FILE, { version: 1, deliveries: {} });
+  logger.info(`Delivery ledger loaded (${Object.keys(ledger.deliveries).length} deliveries)`);
+}
+
+function saveLedger() {
+  saveJson(DELIVERY_LEDGER_FILE, ledger);
+}
+
+/**
+ * Drop the oldest entries once the ledger grows past MAX_DELIVERIES
+ */
+function pruneLedger() {
+  const keys = Object.keys(ledger.deliveries);
+  if (keys.length <= MAX_DELIVERIES) {
+    return;
+  }
+  keys
+    .sort((a, b) => ledger.deliveries[a].createdAt.localeCompare(ledger.deliveries[b].createdAt))
+    .slice(0, keys.length - MAX_DELIVERIES)
+    .forEach(key => delete ledger.deliveries[key]);
+}
+
+export function getDelivery(key: string): Delivery | undefined {
+  return ledger.deliveries[key];
+}
+
+/**
+ * Record a new pending delivery
+ */
+export function recordDelivery(delivery: Omit<Delivery, 'status' | 'createdAt' | 'updatedAt'>): Delivery {
+  const now = new Date().toISOString();
+  const entry: Delivery = { ...delivery, status: 'pending', createdAt: now, updatedAt: now };
+  ledger.deliveries[entry.key] = entry;
+  pruneLedger();
+  saveLedger();
+  return entry;
+}
+
+/**
+ * Set the status of the delivery with the given request ID
+ * (pending again when a dead-lettered job is retried)
+ */
+export function updateDelivery(requestId: string, status: DeliveryStatus, error?: string): Delivery | undefined {
+  const entry = Object.values(ledger.deliveries).find(delivery => delivery.requestId === requestId);
+  if (!entry) {
+    return undefined;
+  }
+
+  entry.status = status;
+  entry.error = error;
+  entry.updatedAt = new Date().toISOString();
+  saveLedger();
+  logger.info(`[DELIVERIES] ${describeDelivery(entry)} (${entry.key}): ${status}${error ? ` - ${error}` : ''}`);
+  return entry;
+}
+
+/**
+ * A give's job was dead-lettered: mark it failed and report it, since Takaro may have been told it was pending
+ */
+export function reportUndelivered(requestId: string, reason: string): Delivery | undefined {
+  const entry = updateDelivery(requestId, 'failed', reason);
+  if (entry) {
+    actions.report(`Undelivered: ${describeDelivery(entry)} (${entry.key}) - ${reason}. Refund it, or requeue it with "jobs retry ${entry.requestId}"`);
+  }
+  return entry;
+}
+
+export function describeDelivery(delivery: Delivery): string {
+  return `${delivery.quantity}x ${delivery.itemId}${delivery.type === 'pal' ? ' (Pal)' : ''} for ${delivery.playerName}`;
+}
+
+/**
+ * Delivery history of one player, newest first
+ */
+export function listDeliveries(playerId: string): Delivery[] {
+  return Object.values(ledger.deliveries)
+    .filter(delivery => delivery.playerId === playerId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
@@ -0,0 +1,60 @@
+/**
+ * Parse and format human durations like "3d", "12h", "30m" or "1d12h"
+ */
+
+const UNIT_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000
+};
+
+/**
+ * Parse a duration string into milliseconds, or null if it isn't one
+ */
+export function parseDuration(text: string): number | null {
+  const value = text.trim().toLowerCase();
+  if (!/^(\d+[smhdw])+$/.test(value)) {
+    return null;
+  }
+
+  let total = 0;
+  for (const [, amount, unit] of value.matchAll(/(\d+)([smhdw])/g)) {
+    total += parseInt(amount, 10) * UNIT_MS[unit];
+  }
+  return total > 0 ? total : null;
+}
+
+/**
+ * Parse an expiry given as a date ("2025-01-31T12:00:00Z") or a duration from now ("3d")
+ * Returns the expiry as epoch milliseconds, or null if it is neither.
+ */
+export function parseExpiry(text: string, now: number = Date.now()): number | null {
+  const duration = parseDuration(text);
+  if (duration !== null) {
+    return now + duration;
+  }
+  const time = new Date(text.trim()).getTime();
+  return text.trim() && !isNaN(time) ? time : null;
+}
+
+/**
+ * Format milliseconds as a compact duration ("2d 3h", "5m 10s")
+ */
+export function formatDuration(ms: number): string {
+  if (ms < 1000) {
+    return '0s';
+  }
+
+  const parts: string[] = [];
+  let remaining = Math.floor(ms / 1000) * 1000;
+  for (const unit of ['w', 'd', 'h', 'm', 's']) {
+    const count = Math.floor(remaining / UNIT_MS[unit]);
+    if (count > 0) {
+      parts.push(`${count}${unit}`);
+      remaining -= count * UNIT_MS[unit];
+    }
+  }
+  return parts.slice(0, 2).join(' ');
+}
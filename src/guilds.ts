@@ -0,0 +1,164 @@
+import { logger } from './logger';
+import { loadJson, saveJson } from './jsonStore';
+import * as playerRegistry from './playerRegistry';
+
+/**
+ * Latest guild snapshot posted by the TakaroChat mod on /guild-data (data/guilds.json)
+ *
+ * Members are mapped to known players through the player registry (Palworld
+ * player GUID first, then character name). Each new snapshot is compared with
+ * the previous one and players who joined or left a guild are reported to the
+ * membership listeners.
+ *
+ * guild.lua is disabled in the mod's main.lua (it crashes the server), so no
+ * snapshots arrive until it is re-enabled.
+ */
+
+// Guild as posted by guild.lua
+export interface RawGuild {
+  guild_id: string;
+  guild_name: string;
+  admin_player_uid: string;
+  member_count?: number;
+  members?: Array<{ player_uid: string; player_name: string }>;
+}
+
+export interface GuildMember {
+  playerUid: string;   // Palworld player GUID
+  name: string;
+  gameId?: string;     // Takaro gameId, if the bridge has seen the player
+}
+
+export interface Guild {
+  guildId: string;
+  name: string;
+  adminUid: string;
+  members: GuildMember[];
+}
+
+export interface GuildMembershipChange {
+  change: 'joined' | 'left';
+  guild: Guild;
+  member: GuildMember;
+}
+
+interface GuildFile {
+  version: number;
+  updatedAt: string | null;
+  guilds: Guild[];
+}
+
+const GUILDS_FILE = 'guilds.json';
+
+let snapshot: GuildFile = { version: 1, updatedAt: null, guilds: [] };
+const membershipListeners: Array<(change: GuildMembershipChange) => void> = [];
+
+/**
+ * Load the last guild snapshot from disk
+ */
+export function initGuilds() {
+  snapshot = loadJson<GuildFile>(GUILDS_FILE, { version: 1, updatedAt: null, guilds: [] });
+  logger.info(`Guild snapshot loaded (${snapshot.guilds.length} guilds${snapshot.updatedAt ? `, from ${snapshot.updatedAt}` : ''})`);
+}
+
+/**
+ * Register a listener called for every player who joined or left a guild between snapshots
+ */
+export function onGuildMembershipChanged(listener: (change: GuildMembershipChange) => void) {
+  membershipListeners.push(listener);
+}
+
+/**
+ * GUIDs come as "ABCD..." from the REST API and may carry dashes or braces from UE4SS
+ */
+function normalizeUid(uid: string): string {
+  return uid.replace(/[^0-9a-fA-F]/g, '').toLowerCase();
+}
+
+function resolveMember(playerUid: string, name: string): GuildMember {
+  const registered = playerRegistry.findRegisteredPlayer(normalizeUid(playerUid)) ||
+    playerRegistry.findRegisteredPlayer(name);
+  return { playerUid, name: registered?.name || name, gameId: registered?.userId };
+}
+
+function memberKey(member: GuildMember): string {
+  return normalizeUid(member.playerUid) || member.name.toLowerCase();
+}
+
+function notifyMembershipChanged(change: GuildMembershipChange) {
+  for (const listener of membershipListeners) {
+    try {
+      listener(change);
+    } catch (error: any) {
+      logger.error(`[GUILD] Membership listener failed: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Replace the snapshot with the guilds posted by the mod and report membership changes
+ * The first snapshot after a fresh start only sets the baseline.
+ */
+export function updateGuilds(rawGuilds: RawGuild[]): GuildMembershipChange[] {
+  const guilds: Guild[] = rawGuilds.map(raw => ({
+    guildId: String(raw.guild_id),
+    name: String(raw.guild_name),
+    adminUid: String(raw.admin_player_uid),
+    members: (raw.members || []).map(member => resolveMember(String(member.player_uid), String(member.player_name)))
+  }));
+
+  const changes: GuildMembershipChange[] = [];
+  if (snapshot.updatedAt !== null) {
+    const previous = new Map(snapshot.guilds.map(guild => [guild.guildId, guild]));
+    const current = new Map(guilds.map(guild => [guild.guildId, guild]));
+
+    for (const guild of guilds) {
+      const before = new Set((previous.get(guild.guildId)?.members || []).map(memberKey));
+      guild.members
+        .filter(member => !before.has(memberKey(member)))
+        .forEach(member => changes.push({ change: 'joined', guild, member }));
+    }
+    for (const guild of snapshot.guilds) {
+      const after = new Set((current.get(guild.guildId)?.members || []).map(memberKey));
+      guild.members
+        .filter(member => !after.has(memberKey(member)))
+        .forEach(member => changes.push({ change: 'left', guild, member }));
+    }
+  }
+
+  snapshot = { version: 1, updatedAt: new Date().toISOString(), guilds };
+  saveJson(GUILDS_FILE, snapshot);
+
+  for (const change of changes) {
+    logger.info(`[GUILD] ${change.member.name} ${change.change} ${change.guild.name}`);
+    notifyMembershipChanged(change);
+  }
+  return changes;
+}
+
+export function listGuilds(): Guild[] {
+  return [...snapshot.guilds];
+}
+
+export function getSnapshotTime(): string | null {
+  return snapshot.updatedAt;
+}
+
+/**
+ * Guild of a player by gameId
+ */
+export function getGuildForPlayer(gameId: string): Guild | undefined {
+  // Members who were unknown when the snapshot arrived are matched by GUID
+  const uid = normalizeUid(playerRegistry.getRegisteredPlayer(gameId)?.palworldPlayerId || '');
+  return snapshot.guilds.find(guild => guild.members.some(member =>
+    member.gameId === gameId || (uid !== '' && normalizeUid(member.playerUid) === uid)
+  ));
+}
+
+/**
+ * Find a guild by ID or name (case-insensitive)
+ */
+export function findGuild(identifier: string): Guild | undefined {
+  const lower = identifier.toLowerCase();
+  return snapshot.guilds.find(guild => guild.guildId === identifier || guild.name.toLowerCase() === lower);
+}
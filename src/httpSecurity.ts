@@ -0,0 +1,133 @@
+import * as crypto from 'crypto';
+import { IncomingMessage } from 'http';
+import { Request, Response, NextFunction } from 'express';
+import { logger } from './logger';
+
+/**
+ * Protection for the mod-facing HTTP endpoints
+ *
+ * Requests must carry the shared secret (BRIDGE_SECRET), either as a token
+ *   X-Bridge-Token: <secret>   (or Authorization: Bearer <secret>)
+ * which is what the TakaroChat Lua scripts send, or as an HMAC signature
+ *   X-Bridge-Timestamp: <unix seconds>
+ *   X-Bridge-Signature: sha256=<hex HMAC-SHA256(secret, "<timestamp>.<raw body>")>
+ * for clients that shouldn't put the secret on the wire.
+ */
+
+const SIGNATURE_MAX_AGE = 300; // seconds
+
+// Raw body is kept for HMAC verification (set by captureRawBody)
+interface RequestWithRawBody extends Request {
+  rawBody?: Buffer;
+}
+
+/**
+ * express.json() verify hook that keeps the raw request body
+ */
+export function captureRawBody(req: Request, _res: Response, buf: Buffer) {
+  (req as RequestWithRawBody).rawBody = buf;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+}
+
+/**
+ * Check a WebSocket upgrade request: X-Bridge-Token header or ?token= query parameter
+ */
+export function isAuthorizedUpgrade(req: IncomingMessage, secret: string): boolean {
+  if (!secret) {
+    return true;
+  }
+
+  const header = req.headers['x-bridge-token'];
+  const token = (Array.isArray(header) ? header[0] : header) ||
+    new URL(req.url || '/', 'http://localhost').searchParams.get('token') || '';
+  return token !== '' && safeEqual(token, secret);
+}
+
+/**
+ * Reject requests without a valid token or signature
+ * With no secret configured every request is allowed (old mod versions keep working).
+ */
+export function createAuthMiddleware(secret: string) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!secret) {
+      next();
+      return;
+    }
+
+    const authorization = req.header('authorization') || '';
+    const token = req.header('x-bridge-token') || (authorization.startsWith('Bearer ') ? authorization.substring(7) : '');
+    if (token && safeEqual(token, secret)) {
+      next();
+      return;
+    }
+
+    const signature = req.header('x-bridge-signature') || '';
+    const timestamp = req.header('x-bridge-timestamp') || '';
+    if (signature && timestamp) {
+      const age = Math.abs(Date.now() / 1000 - parseInt(timestamp, 10));
+      if (!isNaN(age) && age <= SIGNATURE_MAX_AGE) {
+        const body = (req as RequestWithRawBody).rawBody || Buffer.alloc(0);
+        const expected = 'sha256=' + crypto.createHmac('sha256', secret)
+          .update(`${timestamp}.`)
+          .update(body)
+          .digest('hex');
+        if (safeEqual(signature, expected)) {
+          next();
+          return;
+        }
+      }
+    }
+
+    logger.warn(`[HTTP] Rejected unauthenticated ${req.method} ${req.path} from ${req.ip}`);
+    res.status(401).json({ success: false, error: 'Unauthorized' });
+  };
+}
+
+/**
+ * Fixed-window per-IP rate limiter (maxRequests per windowMs, 0 = disabled)
+ */
+export function createRateLimiter(maxRequests: number, windowMs: number) {
+  const windows = new Map<string, { start: number; count: number }>();
+
+  // Forget idle clients so the map doesn't grow forever
+  setInterval(() => {
+    const now = Date.now();
+    for (const [ip, window] of windows) {
+      if (now - window.start >= windowMs) {
+        windows.delete(ip);
+      }
+    }
+  }, windowMs).unref();
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (maxRequests <= 0) {
+      next();
+      return;
+    }
+
+    const ip = req.ip || 'unknown';
+    const now = Date.now();
+    let window = windows.get(ip);
+    if (!window || now - window.start >= windowMs) {
+      window = { start: now, count: 0 };
+      windows.set(ip, window);
+    }
+
+    window.count++;
+    if (window.count > maxRequests) {
+      if (window.count === maxRequests + 1) {
+        logger.warn(`[HTTP] Rate limit exceeded by ${ip} (${maxRequests} requests per ${windowMs / 1000}s)`);
+      }
+      res.setHeader('Retry-After', String(Math.ceil((window.start + windowMs - now) / 1000)));
+      res.status(429).json({ success: false, error: 'Too many requests' });
+      return;
+    }
+
+    next();
+  };
+}
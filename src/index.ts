@@ -1,13 +1,32 @@
 import WebSocket from 'ws';
-import winston from 'winston';
-import axios, { AxiosInstance } from 'axios';
 import express from 'express';
 import * as fs from 'fs';
 import * as path from 'path';
-import { exec } from 'child_process';
-import { promisify } from 'util';
-
-const execPromise = promisify(exec);
+import { logger } from './logger';
+import { resolveDataPath } from './jsonStore';
+import * as palworldApi from './palworldApi';
+import * as playerList from './playerList';
+import { BridgePlayer } from './playerList';
+import * as playerRegistry from './playerRegistry';
+import * as banLedger from './banLedger';
+import { parseDuration, parseExpiry, formatDuration } from './duration';
+import * as scheduler from './scheduler';
+import * as restartManager from './restart';
+import * as liveness from './liveness';
+import { captureRawBody, createAuthMiddleware, createRateLimiter } from './httpSecurity';
+import { RequestBroker, RequestTimeoutError } from './requestBroker';
+import * as pushChannel from './pushChannel';
+import * as jobQueue from './jobQueue';
+import * as deliveryLedger from './deliveryLedger';
+import * as itemCatalog from './itemCatalog';
+import * as palCatalog from './palCatalog';
+import * as waypoints from './waypoints';
+import * as guilds from './guilds';
+import * as chatRouting from './chatRouting';
+import * as moderation from './moderation';
+import * as chatHistory from './chatHistory';
+import * as announcements from './announcements';
+import * as deathStats from './deathStats';
 
 // Version
 const VERSION = '1.5.9';
@@ -38,87 +57,6 @@ function loadConfig() {
 
 loadConfig();
 
-// Create logs directory if it doesn't exist
-const logsDir = path.join(process.cwd(), 'logs');
-if (!fs.existsSync(logsDir)) {
-  fs.mkdirSync(logsDir, { recursive: true });
-}
-
-// Function to get current log filename
-function getLogFilename(): string {
-  const now = new Date();
-  const year = now.getFullYear();
-  const month = String(now.getMonth() + 1).padStart(2, '0');
-  const day = String(now.getDate()).padStart(2, '0');
-  const hour = String(now.getHours()).padStart(2, '0');
-  return path.join(logsDir, `${year}-${month}-${day}_${hour}.log`);
-}
-
-// Logger state for hourly rotation
-let currentLogFilename = getLogFilename();
-let fileTransport = new winston.transports.File({ filename: currentLogFilename });
-
-// Configure logger
-const logger = winston.createLogger({
-  level: 'info',
-  format: winston.format.combine(
-    winston.format.timestamp(),
-    winston.format.printf(({ timestamp, level, message }) => {
-      return `${timestamp} [${level.toUpperCase()}] ${message}`;
-    })
-  ),
-  transports: [
-    new winston.transports.Console(),
-    fileTransport
-  ]
-});
-
-// Function to clean up old log files (keep only 10 most recent)
-function cleanupOldLogs() {
-  try {
-    const files = fs.readdirSync(logsDir)
-      .filter(f => f.endsWith('.log'))
-      .map(f => ({
-        name: f,
-        path: path.join(logsDir, f),
-        mtime: fs.statSync(path.join(logsDir, f)).mtime
-      }))
-      .sort((a, b) => b.mtime.getTime() - a.mtime.getTime()); // Sort newest first
-
-    // Keep only the 10 most recent, delete the rest
-    if (files.length > 10) {
-      const filesToDelete = files.slice(10);
-      filesToDelete.forEach(file => {
-        fs.unlinkSync(file.path);
-        logger.info(`Deleted old log file: ${file.name}`);
-      });
-    }
-  } catch (error: any) {
-    logger.error(`Failed to cleanup old logs: ${error.message}`);
-  }
-}
-
-// Rotate log file every hour
-setInterval(() => {
-  const newLogFilename = getLogFilename();
-  if (newLogFilename !== currentLogFilename) {
-    logger.info('Rotating log file...');
-
-    // Remove old file transport
-    logger.remove(fileTransport);
-
-    // Create new file transport
-    currentLogFilename = newLogFilename;
-    fileTransport = new winston.transports.File({ filename: currentLogFilename });
-    logger.add(fileTransport);
-
-    logger.info('Log file rotated to: ' + currentLogFilename);
-
-    // Clean up old logs after rotation
-    cleanupOldLogs();
-  }
-}, 60000); // Check every minute
-
 // Configuration
 const TAKARO_WS_URL = process.env.TAKARO_WS_URL || 'wss://connect.takaro.io/';
 const IDENTITY_TOKEN = process.env.IDENTITY_TOKEN || '';
@@ -130,17 +68,90 @@ const PALWORLD_PORT = parseInt(process.env.PALWORLD_PORT || '8212', 10);
 const PALWORLD_BASE_URL = `http://${PALWORLD_HOST}:${PALWORLD_PORT}`;
 const PALWORLD_USERNAME = process.env.PALWORLD_USERNAME || 'admin';
 const PALWORLD_PASSWORD = process.env.PALWORLD_PASSWORD || '';
+const PALWORLD_API_TIMEOUT = parseInt(process.env.PALWORLD_API_TIMEOUT || '10000', 10);
+const PALWORLD_API_RETRIES = parseInt(process.env.PALWORLD_API_RETRIES || '2', 10);
+const PALWORLD_API_RETRY_DELAY = parseInt(process.env.PALWORLD_API_RETRY_DELAY || '500', 10);
+const PALWORLD_BREAKER_THRESHOLD = parseInt(process.env.PALWORLD_BREAKER_THRESHOLD || '5', 10);
+const PALWORLD_BREAKER_RESET = parseInt(process.env.PALWORLD_BREAKER_RESET || '30000', 10);
+
+// Server banlist.txt used by "bans import/export" when no path is given (optional)
+const PALWORLD_BANLIST_PATH = process.env.PALWORLD_BANLIST_PATH || '';
+
+// Managed restart: warning offsets before shutdown, and how long to wait for the server to return
+const RESTART_WARNINGS = (process.env.RESTART_WARNINGS || '10m,5m,1m,10s')
+  .split(',')
+  .map(value => parseDuration(value))
+  .filter((ms): ms is number => ms !== null)
+  .map(ms => Math.round(ms / 1000));
+const RESTART_RETURN_TIMEOUT = parseDuration(process.env.RESTART_RETURN_TIMEOUT || '15m') || 15 * 60 * 1000;
+
+// Server liveness detection (auto = tasklist on Windows, process check elsewhere)
+const SERVER_LIVENESS = (process.env.SERVER_LIVENESS || 'auto').toLowerCase() as liveness.LivenessOptions['strategy'];
+const SERVER_PROCESS_NAME = process.env.SERVER_PROCESS_NAME || '';
+const SERVER_PID_FILE = process.env.SERVER_PID_FILE || '';
+const DOCKER_CONTAINER = process.env.DOCKER_CONTAINER || '';
+const DOCKER_SOCKET = process.env.DOCKER_SOCKET || '/var/run/docker.sock';
+const LIVENESS_DEBOUNCE = parseInt(process.env.LIVENESS_DEBOUNCE || '2', 10);
+
+// Teleport results: how long to wait for the mod, and optional position check afterwards
+const TELEPORT_TIMEOUT = parseInt(process.env.TELEPORT_TIMEOUT || '10000', 10);
+const TELEPORT_VERIFY = (process.env.TELEPORT_VERIFY || 'false').toLowerCase() === 'true';
+const TELEPORT_VERIFY_TOLERANCE = parseFloat(process.env.TELEPORT_VERIFY_TOLERANCE || '1000'); // Max distance from the destination (game units)
+// The mod stops trying this long before the bridge gives up, so its result still arrives in time
+const TELEPORT_RESPONSE_MARGIN = 2000;
+
+// Reject giveItem for items missing from the bundled catalog (default: pass unknown IDs through, the catalog is not complete)
+const ITEM_CATALOG_STRICT = (process.env.ITEM_CATALOG_STRICT || 'false').toLowerCase() === 'true';
+// Most Pals one givePal/spawnPal may create
+const PAL_MAX_COUNT = parseInt(process.env.PAL_MAX_COUNT || '10', 10);
+// Reject givePal/spawnPal for species missing from the bundled catalog (default: pass unknown IDs through)
+const PAL_CATALOG_STRICT = (process.env.PAL_CATALOG_STRICT || 'false').toLowerCase() === 'true';
+
+// Broadcast a private message as an announcement when the mod can't deliver it
+const WHISPER_FALLBACK_BROADCAST = (process.env.WHISPER_FALLBACK_BROADCAST || 'false').toLowerCase() === 'true';
+
+// Longer announcements are split into several (see announcements.ts); templates come from ANNOUNCE_TEMPLATE_<NAME> entries
+const ANNOUNCE_MAX_LENGTH = parseInt(process.env.ANNOUNCE_MAX_LENGTH || '200', 10) || 200;
+
+// Chat moderation (see moderation.ts); filter regexes come from CHAT_FILTER_REGEX_<ID> entries
+const CHAT_MODERATION = (process.env.CHAT_MODERATION || 'false').toLowerCase() === 'true';
+const CHAT_FILTER_WORDS = (process.env.CHAT_FILTER_WORDS || '').split(',').map(word => word.trim()).filter(word => word);
+const CHAT_RATE_LIMIT = parseInt(process.env.CHAT_RATE_LIMIT || '5', 10); // Messages per CHAT_RATE_WINDOW (0 = unlimited)
+const CHAT_RATE_WINDOW = parseDuration(process.env.CHAT_RATE_WINDOW || '10s') || 10000;
+const CHAT_REPEAT_LIMIT = parseInt(process.env.CHAT_REPEAT_LIMIT || '3', 10); // Identical messages per CHAT_REPEAT_WINDOW (0 = unlimited)
+const CHAT_REPEAT_WINDOW = parseDuration(process.env.CHAT_REPEAT_WINDOW || '1m') || 60000;
+const CHAT_SANCTIONS = (process.env.CHAT_SANCTIONS || 'warn,mute,kick,ban').split(',')
+  .map(sanction => sanction.trim().toLowerCase())
+  .filter((sanction): sanction is moderation.Sanction => moderation.SANCTIONS.includes(sanction as moderation.Sanction));
+const CHAT_MUTE_DURATION = parseDuration(process.env.CHAT_MUTE_DURATION || '10m') || 600000;
+const CHAT_BAN_DURATION = parseDuration(process.env.CHAT_BAN_DURATION || '1d') || 86400000;
+const CHAT_STRIKE_DECAY = parseDuration(process.env.CHAT_STRIKE_DECAY || '1h') || 3600000;
+const CHAT_STRIKE_COOLDOWN = parseDuration(process.env.CHAT_STRIKE_COOLDOWN || '30s') || 30000;
+
+// Chat history (data/chat-history.jsonl), kept independently of the log file rotation
+const CHAT_HISTORY_RETENTION = parseDuration(process.env.CHAT_HISTORY_RETENTION || '30d') || 30 * 86400000;
+const CHAT_HISTORY_MAX_ENTRIES = parseInt(process.env.CHAT_HISTORY_MAX_ENTRIES || '100000', 10);
+
+// Player list snapshot TTL (ms) - Takaro's getPlayers and command bursts are served from this
+const PLAYER_LIST_TTL = parseInt(process.env.PLAYER_LIST_TTL || '5000', 10);
 
 // HTTP Server Configuration (for receiving chat from UE4SS mod)
 const HTTP_PORT = parseInt(process.env.HTTP_PORT || '3001', 10);
+const HTTP_BIND = process.env.HTTP_BIND || '127.0.0.1';
+const BRIDGE_SECRET = process.env.BRIDGE_SECRET || ''; // Shared secret the TakaroChat mod sends (config.BridgeToken)
+const HTTP_RATE_LIMIT = parseInt(process.env.HTTP_RATE_LIMIT || '1200', 10); // Requests per minute per IP (0 = unlimited)
+const HTTP_BODY_LIMIT = process.env.HTTP_BODY_LIMIT || '256kb';
+const MOD_JOBS_MAX_WAIT = parseInt(process.env.MOD_JOBS_MAX_WAIT || '30', 10); // Longest GET /jobs long-poll (seconds)
+const MOD_WEBSOCKET = (process.env.MOD_WEBSOCKET || 'false').toLowerCase() === 'true';
+const MOD_JOB_LEASE = parseInt(process.env.MOD_JOB_LEASE || '15000', 10); // How long a fetched job waits for its ack (ms)
+const MOD_JOB_MAX_ATTEMPTS = parseInt(process.env.MOD_JOB_MAX_ATTEMPTS || '5', 10);
 
 // Takaro WebSocket connection
 let takaroWs: WebSocket | null = null;
 let isConnectedToTakaro = false;
 let reconnectTimeout: NodeJS.Timeout | null = null;
 
-// Palworld API client
-let palworldApi: AxiosInstance;
+// Palworld server state
 let isServerRunning = false;
 let serverCheckInterval: NodeJS.Timeout | null = null;
 
@@ -163,7 +174,7 @@ let lastKnownPlayers = new Set<string>();
 let hasInitializedPlayerList = false; // Track if we've done first poll
 const playerCache = new Map<string, { gameId: string; name: string; accountName: string; steamId: string; palworldPlayerId: string }>();
 
-// Teleport queue for pending teleports
+// Teleport jobs for the mod (queued in jobQueue)
 interface TeleportRequest {
   sourcePlayer: string;
   sourceSteamId: string;  // Added for reliable player matching
@@ -172,11 +183,28 @@ interface TeleportRequest {
   x?: number;             // Optional - used for coordinate teleport
   y?: number;
   z?: number;
+  requestId: string;      // Also the job ID; the mod answers on /teleport-response
+  timestamp: string;
+}
+interface TeleportResponse {
+  requestId: string;
+  playerName: string;
+  success: boolean;
+  error?: string;
+  x: number;              // Where the player was sent
+  y: number;
+  z: number;
   timestamp: string;
 }
-const teleportQueue: TeleportRequest[] = [];
+const teleportBroker = new RequestBroker<TeleportResponse>('teleport');
+interface TeleportResult {
+  success: boolean;
+  message?: string;
+  error?: string;
+  position?: { x: number; y: number; z: number };
+}
 
-// Location queue for getting player positions
+// Location jobs for getting player positions
 interface LocationRequest {
   name: string; // Player display name from API - matches PlayerNamePrivate in Lua
   requestId: string;
@@ -190,8 +218,7 @@ interface LocationResponse {
   z: number;
   timestamp: string;
 }
-const locationRequestQueue: LocationRequest[] = [];
-const locationResponseQueue: LocationResponse[] = [];
+const locationBroker = new RequestBroker<LocationResponse>('location');
 
 // Item giving system
 interface ItemRequest {
@@ -209,8 +236,49 @@ interface ItemResponse {
   success: boolean;
   timestamp: string;
 }
-const itemRequestQueue: ItemRequest[] = [];
-const itemResponseQueue: ItemResponse[] = [];
+const itemBroker = new RequestBroker<ItemResponse>('items');
+
+// Pal giving/spawning ("give" = into the player's Pal box, "spawn" = next to the player)
+type PalMode = 'give' | 'spawn';
+interface PalRequest {
+  playerName: string;
+  palId: string;
+  level: number;
+  count: number;
+  mode: PalMode;
+  requestId: string;
+  timestamp: string;
+}
+interface PalResponse {
+  requestId: string;
+  playerName: string;
+  palId: string;
+  level: number;
+  count: number;
+  success: boolean;
+  error?: string;
+  timestamp: string;
+}
+const palBroker = new RequestBroker<PalResponse>('pals');
+
+// Private messages to one player (shown only in their chat by the mod)
+interface WhisperRequest {
+  playerName: string;   // accountName - matches PlayerNamePrivate in Lua
+  message: string;
+  requestId: string;
+  timestamp: string;
+}
+interface WhisperResponse {
+  requestId: string;
+  playerName: string;
+  success: boolean;
+  error?: string;
+  timestamp: string;
+}
+const whisperBroker = new RequestBroker<WhisperResponse>('whisper');
+
+// How long handlers wait for the mod to answer a queued request
+const MOD_RESPONSE_TIMEOUT = 5000;
 
 // Map playerName to steamId for location request tracking
 const playerNameToSteamId = new Map<string, string>();
@@ -226,7 +294,9 @@ const metrics = {
 
 // Initialize Express app for chat endpoint
 const app = express();
-app.use(express.json());
+app.use(createRateLimiter(HTTP_RATE_LIMIT, 60000));
+app.use(express.json({ limit: HTTP_BODY_LIMIT, verify: captureRawBody }));
+app.use(createAuthMiddleware(BRIDGE_SECRET));
 
 /**
  * Chat/Events endpoint - receives in-game events from UE4SS mod
@@ -237,9 +307,23 @@ app.post('/chat', async (req, res) => {
 
     // Handle different event types
     switch (type) {
-      case 'chat':
+      case 'chat': {
         logger.info(`[CHAT] [${categoryName || category}] ${playerName}: ${message}`);
-        if (isConnectedToTakaro) {
+        const chatPlayer = findChatPlayer(playerName);
+        const allowed = await moderateChat(chatPlayer, message);
+        const relayed = allowed && isConnectedToTakaro && chatPlayer !== undefined &&
+          chatRouting.getChatRoute(Number(category)).channel !== null;
+
+        chatHistory.recordChat({
+          timestamp: timestamp && !isNaN(Date.parse(timestamp)) ? new Date(timestamp).toISOString() : new Date().toISOString(),
+          gameId: chatPlayer?.gameId || null,
+          name: chatPlayer?.name || playerName,
+          category: Number(category),
+          message,
+          relayed
+        });
+
+        if (allowed && isConnectedToTakaro) {
           await sendChatEvent({
             playerName,
             message,
@@ -249,13 +333,13 @@ app.post('/chat', async (req, res) => {
           });
         }
         break;
+      }
 
       case 'player_connect':
         logger.info(`[EVENT] Player connected: ${playerName}`);
         if (isConnectedToTakaro) {
-          // Fetch current players to get gameId for the connected player
-          const players = await handleGetPlayers();
-          const connectedPlayer = players.find((p: any) =>
+          // Look up the connected player to get their gameId (refreshes once if not in the snapshot)
+          const connectedPlayer = await playerList.findPlayer(p =>
             p.name.toLowerCase() === playerName.toLowerCase()
           );
           if (connectedPlayer) {
@@ -269,20 +353,18 @@ app.post('/chat', async (req, res) => {
       case 'player_disconnect':
         logger.info(`[EVENT] Player disconnected: ${playerName}`);
         if (isConnectedToTakaro) {
-          // Use cached gameId for disconnect (player is offline now)
+          // Use cached gameId for disconnect (player is offline now), falling back to the registry
           const cachedPlayer = Array.from(playerCache.values()).find(p =>
             p.name.toLowerCase() === playerName.toLowerCase()
           );
-          const gameId = cachedPlayer?.gameId;
+          const gameId = cachedPlayer?.gameId || playerRegistry.findRegisteredPlayer(playerName)?.userId;
           await sendPlayerEvent('player-disconnected', playerName, timestamp, gameId);
         }
         break;
 
       case 'player_death':
         logger.info(`[EVENT] Player died: ${playerName}`);
-        if (isConnectedToTakaro) {
-          await sendPlayerEvent('player-death', playerName, timestamp);
-        }
+        await handlePlayerDeath(playerName, data || {}, timestamp);
         break;
 
       case 'inventory':
@@ -310,13 +392,47 @@ app.post('/chat', async (req, res) => {
 });
 
 /**
- * Teleport queue endpoint - UE4SS mod polls this for pending teleports
+ * Job channel endpoint - long-polled by the UE4SS mod, delivers all job types as soon as they are queued
+ */
+app.get('/jobs', (req, res) => {
+  try {
+    pushChannel.handleJobsRequest(req, res);
+  } catch (error: any) {
+    logger.error(`Jobs endpoint error: ${error.message}`);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+/**
+ * Job acknowledgement endpoint - the mod confirms a job by ID ({ jobId } or { jobIds: [...] })
+ */
+app.post('/jobs/ack', (req, res) => {
+  try {
+    const { jobId, jobIds } = req.body;
+    const ids: string[] = Array.isArray(jobIds) ? jobIds : (jobId ? [jobId] : []);
+    if (ids.length === 0) {
+      res.status(400).json({ success: false, error: 'jobId or jobIds is required' });
+      return;
+    }
+
+    const acked = ids.filter(id => jobQueue.ackJob(String(id)));
+    if (acked.length < ids.length) {
+      logger.debug(`[JOBS] Ignored ack for ${ids.length - acked.length} unknown or expired job(s)`);
+    }
+    res.status(200).json({ success: true, acked });
+  } catch (error: any) {
+    logger.error(`Jobs ack endpoint error: ${error.message}`);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+/**
+ * Teleport queue endpoint - UE4SS mod polls this for pending teleports (older mod versions)
  */
 app.get('/teleport-queue', (req, res) => {
   try {
-    // Return all pending teleports and clear the queue
-    const pending = [...teleportQueue];
-    teleportQueue.length = 0; // Clear queue
+    // Lease pending teleports; they come back if the mod doesn't ack them
+    const pending = jobQueue.leaseJobs('teleport').map(job => ({ ...job.payload, jobId: job.jobId }));
     res.status(200).json({ teleports: pending });
   } catch (error: any) {
     logger.error(`Teleport queue endpoint error: ${error.message}`);
@@ -324,11 +440,29 @@ app.get('/teleport-queue', (req, res) => {
   }
 });
 
+// Teleport response endpoint (Lua posts the teleport result here)
+app.post('/teleport-response', (req, res) => {
+  try {
+    const response: TeleportResponse = req.body;
+    if (response.success) {
+      logger.info(`[TELEPORT] ${response.playerName} teleported to (${response.x}, ${response.y}, ${response.z})`);
+    } else {
+      logger.warn(`[TELEPORT] Teleport of ${response.playerName} failed: ${response.error || 'unknown error'}`);
+    }
+    jobQueue.ackJob(response.requestId);
+    teleportBroker.resolve(response.requestId, response);
+    res.status(200).json({ success: true });
+  } catch (error: any) {
+    logger.error(`Teleport response endpoint error: ${error.message}`);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
 // Location request queue endpoint (polled by Lua)
 app.get('/location-queue', (req, res) => {
   try {
-    // Return queue WITHOUT clearing it - timeout logic will handle cleanup
-    const pending = [...locationRequestQueue];
+    // Lease pending requests - posting the location response acks them
+    const pending = jobQueue.leaseJobs('location').map(job => ({ ...job.payload, jobId: job.jobId }));
     res.status(200).json({ requests: pending });
   } catch (error: any) {
     logger.error(`Location queue endpoint error: ${error.message}`);
@@ -340,8 +474,9 @@ app.get('/location-queue', (req, res) => {
 app.post('/location-response', (req, res) => {
   try {
     const response: LocationResponse = req.body;
-    locationResponseQueue.push(response);
     logger.debug(`[LOCATION] Received response for ${response.name}: (${response.x}, ${response.y}, ${response.z})`);
+    jobQueue.ackJob(response.requestId);
+    locationBroker.resolve(response.requestId, response);
 
     res.status(200).json({ success: true });
   } catch (error: any) {
@@ -353,7 +488,8 @@ app.post('/location-response', (req, res) => {
 // Item request queue endpoint (polled by Lua)
 app.get('/item-queue', (req, res) => {
   try {
-    const pending = [...itemRequestQueue];
+    // Lease pending requests - posting the item response acks them
+    const pending = jobQueue.leaseJobs('item').map(job => ({ ...job.payload, jobId: job.jobId }));
     res.status(200).json({ requests: pending });
   } catch (error: any) {
     logger.error(`Item queue endpoint error: ${error.message}`);
@@ -365,8 +501,18 @@ app.get('/item-queue', (req, res) => {
 app.post('/item-response', (req, res) => {
   try {
     const response: ItemResponse = req.body;
-    itemResponseQueue.push(response);
     logger.info(`[ITEMS] ${response.success ? 'Gave' : 'Failed to give'} ${response.quantity}x ${response.itemId} to ${response.playerName}`);
+    // A give that failed because the player is offline waits for them to reconnect instead of being dropped
+    const recipientOnline = playerList.getSnapshot().some(p => p.accountName === response.playerName);
+    if (response.success || recipientOnline || !jobQueue.deferJob(response.requestId)) {
+      jobQueue.ackJob(response.requestId);
+      deliveryLedger.updateDelivery(
+        response.requestId,
+        response.success ? 'delivered' : 'failed',
+        response.success ? undefined : 'The game could not give the item'
+      );
+    }
+    itemBroker.resolve(response.requestId, response);
     res.status(200).json({ success: true });
   } catch (error: any) {
     logger.error(`Item response endpoint error: ${error.message}`);
@@ -374,27 +520,117 @@ app.post('/item-response', (req, res) => {
   }
 });
 
-// Guild data endpoint (Lua posts guild data here)
-app.post('/guild-data', (req, res) => {
+// Whisper queue endpoint (polled by Lua)
+app.get('/whisper-queue', (req, res) => {
   try {
-    const { guilds, timestamp } = req.body;
-    logger.info(`[GUILD] Received guild data: ${guilds.length} guilds at ${timestamp}`);
+    // Lease pending whispers - posting the whisper response acks them
+    const pending = jobQueue.leaseJobs('whisper').map(job => ({ ...job.payload, jobId: job.jobId }));
+    res.status(200).json({ requests: pending });
+  } catch (error: any) {
+    logger.error(`Whisper queue endpoint error: ${error.message}`);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
 
-    // Log guild details
-    guilds.forEach((guild: any) => {
-      logger.info(`[GUILD]   - ${guild.guild_name} (ID: ${guild.guild_id}, Admin: ${guild.admin_player_uid}, Members: ${guild.member_count})`);
-    });
+// Whisper response endpoint (Lua posts the delivery result here)
+app.post('/whisper-response', (req, res) => {
+  try {
+    const response: WhisperResponse = req.body;
+    logger.debug(`[WHISPER] ${response.success ? 'Delivered' : 'Failed to deliver'} ${response.requestId} to ${response.playerName}${response.error ? `: ${response.error}` : ''}`);
+    jobQueue.ackJob(response.requestId);
+    whisperBroker.resolve(response.requestId, response);
+    res.status(200).json({ success: true });
+  } catch (error: any) {
+    logger.error(`Whisper response endpoint error: ${error.message}`);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
 
-    // TODO: Send guild data to Takaro via WebSocket or store for later use
-    // For now, just log it
+// Pal request queue endpoint (polled by Lua)
+app.get('/pal-queue', (req, res) => {
+  try {
+    // Lease pending requests - posting the Pal response acks them
+    const pending = jobQueue.leaseJobs('pal').map(job => ({ ...job.payload, jobId: job.jobId }));
+    res.status(200).json({ requests: pending });
+  } catch (error: any) {
+    logger.error(`Pal queue endpoint error: ${error.message}`);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
 
+// Pal response endpoint (Lua posts response here)
+app.post('/pal-response', (req, res) => {
+  try {
+    const response: PalResponse = req.body;
+    logger.info(`[PALS] ${response.success ? 'Created' : 'Failed to create'} ${response.count}x ${response.palId} (level ${response.level}) for ${response.playerName}${response.error ? `: ${response.error}` : ''}`);
+    // Same as items: a Pal for a player who went offline waits for them to reconnect
+    const recipientOnline = playerList.getSnapshot().some(p => p.accountName === response.playerName);
+    if (response.success || recipientOnline || !jobQueue.deferJob(response.requestId)) {
+      jobQueue.ackJob(response.requestId);
+      deliveryLedger.updateDelivery(
+        response.requestId,
+        response.success ? 'delivered' : 'failed',
+        response.success ? undefined : response.error || 'The game could not create the Pal'
+      );
+    }
+    palBroker.resolve(response.requestId, response);
     res.status(200).json({ success: true });
+  } catch (error: any) {
+    logger.error(`Pal response endpoint error: ${error.message}`);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Guild data endpoint (Lua posts guild data here)
+app.post('/guild-data', (req, res) => {
+  try {
+    const { guilds: guildData, timestamp } = req.body;
+    if (!Array.isArray(guildData)) {
+      res.status(400).json({ success: false, error: 'guilds must be an array' });
+      return;
+    }
+    logger.debug(`[GUILD] Received guild data: ${guildData.length} guilds at ${timestamp}`);
+
+    // Keep the snapshot; joins/leaves since the last one go to Takaro (see onGuildMembershipChanged)
+    const changes = guilds.updateGuilds(guildData);
+
+    res.status(200).json({ success: true, changes: changes.length });
   } catch (error: any) {
     logger.error(`Guild data endpoint error: ${error.message}`);
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
+/**
+ * Identify the sender of a chat message (player cache first, then the registry)
+ */
+function findChatPlayer(playerName: string): { gameId: string; name: string } | undefined {
+  const cachedPlayer = Array.from(playerCache.values()).find(p => p.name === playerName);
+  if (cachedPlayer) {
+    return { gameId: cachedPlayer.gameId, name: cachedPlayer.name };
+  }
+  const registered = playerRegistry.findRegisteredPlayer(playerName);
+  return registered ? { gameId: registered.userId, name: registered.name } : undefined;
+}
+
+/**
+ * Run a chat message through moderation; false if it must not be relayed
+ * Players the bridge can't identify yet can't be sanctioned, so their messages pass.
+ */
+async function moderateChat(player: { gameId: string; name: string } | undefined, message: string): Promise<boolean> {
+  if (!moderation.isModerationEnabled() || !player) {
+    return true;
+  }
+
+  try {
+    const verdict = await moderation.moderateMessage(player, message);
+    return verdict.allowed;
+  } catch (error: any) {
+    logger.error(`[MODERATION] Failed to moderate message from ${player.name}: ${error.message}`);
+    return true;
+  }
+}
+
 /**
  * Send chat event to Takaro
  */
@@ -409,19 +645,31 @@ async function sendChatEvent(chatData: any) {
       }
     }
 
-    // If player not in cache, trigger refresh and skip this event
-    // This prevents sending invalid gameId (player name) to Takaro
+    // If player not in cache, trigger refresh and fall back to the persistent registry
+    // If they're not there either, skip - this prevents sending invalid gameId (player name) to Takaro
     if (!player) {
-      logger.warn(`Player ${chatData.playerName} not in cache yet, skipping chat event. Triggering player refresh.`);
-      // Trigger immediate player list refresh to update cache
-      handleGetPlayers().catch(err => logger.error(`Error refreshing players: ${err.message}`));
-      return;
+      // Trigger immediate player list refresh to update cache (coalesced with any in-flight refresh)
+      playerList.refreshPlayers().catch(err => logger.error(`Error refreshing players: ${err.message}`));
+
+      const registered = playerRegistry.findRegisteredPlayer(chatData.playerName);
+      if (!registered) {
+        logger.warn(`Player ${chatData.playerName} not in cache or registry yet, skipping chat event. Triggering player refresh.`);
+        return;
+      }
+      player = { name: registered.name, gameId: registered.userId, steamId: registered.userId };
     }
 
-    // Map Palworld categories to ChatChannel enum - must match exact enum values
-    // 1 = Say, 2 = Guild, 3 = Global
-    const category = Number(chatData.category);
-    const channel = (category === 2) ? 'team' : 'global';
+    // Route by Palworld category (1 = Say, 2 = Guild, 3 = Global), see CHAT_ROUTE_* / CHAT_FORMAT_*
+    const route = chatRouting.getChatRoute(Number(chatData.category));
+    if (!route.channel) {
+      logger.debug(`[CHAT] ${route.label} chat is not forwarded to Takaro`);
+      return;
+    }
+    const msg = chatRouting.formatChatMessage(route, {
+      message: chatData.message,
+      player: player.name,
+      guild: route.category === 2 ? guilds.getGuildForPlayer(player.gameId)?.name : undefined
+    });
 
     const event = {
       type: 'gameEvent',
@@ -429,29 +677,49 @@ async function sendChatEvent(chatData: any) {
         type: 'chat-message',
         data: {
           type: 'chat-message',
-          msg: chatData.message,
+          msg,
           player: {
             name: player.name,
             gameId: player.gameId,
             steamId: player.steamId
           },
-          channel: channel
+          channel: route.channel
         }
       }
     };
 
     if (sendToTakaro(event)) {
-      logger.info(`Sent chat-message event to Takaro: ${chatData.playerName}: ${chatData.message}`);
+      logger.info(`Sent chat-message event to Takaro (${route.channel}): ${chatData.playerName}: ${msg}`);
     }
   } catch (error: any) {
     logger.error(`Error sending chat event: ${error.message}`);
   }
 }
 
+/**
+ * Send a log event to Takaro (shows up in the server's event feed)
+ */
+function sendLogEvent(msg: string) {
+  const event = {
+    type: 'gameEvent',
+    payload: {
+      type: 'log',
+      data: {
+        type: 'log',
+        msg
+      }
+    }
+  };
+
+  if (sendToTakaro(event)) {
+    logger.info(`Sent log event to Takaro: ${msg}`);
+  }
+}
+
 /**
  * Send player event to Takaro (connect/disconnect/death)
  */
-async function sendPlayerEvent(eventType: string, playerName: string, timestamp?: string, gameId?: string) {
+async function sendPlayerEvent(eventType: string, playerName: string, timestamp?: string, gameId?: string, extraData?: Record<string, unknown>) {
   try {
     // Use provided gameId or look up in cache
     let player: any = null;
@@ -468,6 +736,14 @@ async function sendPlayerEvent(eventType: string, playerName: string, timestamp?
           break;
         }
       }
+
+      // Fall back to the persistent registry (player may be offline or cache was reset)
+      if (!player) {
+        const registered = playerRegistry.findRegisteredPlayer(playerName);
+        if (registered) {
+          player = { name: registered.name, gameId: registered.userId, steamId: registered.userId };
+        }
+      }
     }
 
     // Don't send event if we don't have a valid gameId
@@ -486,7 +762,8 @@ async function sendPlayerEvent(eventType: string, playerName: string, timestamp?
             name: String(player.name),
             gameId: String(player.gameId),
             steamId: String(player.steamId || player.gameId)
-          }
+          },
+          ...extraData
         }
       }
     };
@@ -500,21 +777,89 @@ async function sendPlayerEvent(eventType: string, playerName: string, timestamp?
 }
 
 /**
- * Initialize Palworld REST API client
+ * Find the player behind a mod event by character or account name
+ * Online players come from the player snapshot (with their last known position),
+ * then the cache and the registry for players who just left.
  */
-function initPalworldApi() {
-  const authString = Buffer.from(`${PALWORLD_USERNAME}:${PALWORLD_PASSWORD}`).toString('base64');
+function findEventPlayer(playerName: string): { gameId: string; name: string; steamId: string; position?: deathStats.DeathPosition } | undefined {
+  const lower = playerName.toLowerCase();
+  const matchesName = (p: { name: string; accountName: string }) =>
+    p.name.toLowerCase() === lower || (p.accountName || '').toLowerCase() === lower;
+
+  const online = playerList.getSnapshot().find(matchesName);
+  if (online) {
+    const position = online.positionX !== undefined && online.positionY !== undefined
+      ? { x: online.positionX, y: online.positionY, z: online.positionZ ?? 0 }
+      : undefined;
+    return { gameId: online.gameId, name: online.name, steamId: online.steamId, position };
+  }
 
-  palworldApi = axios.create({
-    baseURL: PALWORLD_BASE_URL,
-    timeout: 10000,
-    headers: {
-      'Accept': 'application/json',
-      'Authorization': `Basic ${authString}`
-    }
-  });
+  const cachedPlayer = Array.from(playerCache.values()).find(matchesName);
+  if (cachedPlayer) {
+    return { gameId: cachedPlayer.gameId, name: cachedPlayer.name, steamId: cachedPlayer.steamId };
+  }
 
-  logger.info(`Palworld API client initialized for ${PALWORLD_BASE_URL}`);
+  const registered = playerRegistry.findRegisteredPlayer(playerName);
+  return registered ? { gameId: registered.userId, name: registered.name, steamId: registered.userId } : undefined;
+}
+
+/**
+ * Position reported by the mod, either as x/y/z or as a position object
+ */
+function parseEventPosition(data: any): deathStats.DeathPosition | undefined {
+  const source = data?.position || data?.location || data;
+  const [x, y, z] = [source?.x, source?.y, source?.z].map(value => parseFloat(value));
+  return isNaN(x) || isNaN(y) ? undefined : { x, y, z: isNaN(z) ? 0 : z };
+}
+
+/**
+ * Count a player death and send it to Takaro with position, attacker and cause
+ * The mod's death position wins over the last position seen in the player poll.
+ */
+async function handlePlayerDeath(playerName: string, data: any, timestamp?: string) {
+  const player = findEventPlayer(playerName);
+  if (!player) {
+    logger.warn(`[DEATH] Could not identify ${playerName}, death not recorded`);
+    return;
+  }
+
+  const death: deathStats.Death = {
+    timestamp: timestamp && !isNaN(Date.parse(timestamp)) ? new Date(timestamp).toISOString() : new Date().toISOString()
+  };
+  const reportedPosition = parseEventPosition(data);
+  if (reportedPosition) {
+    death.position = reportedPosition;
+    death.positionSource = 'mod';
+  } else if (player.position) {
+    death.position = player.position;
+    death.positionSource = 'last-known';
+  }
+  // Cause and attacker are passed through as the mod reports them
+  if (data.cause) {
+    death.cause = String(data.cause);
+  }
+  const attackerName = typeof data.attacker === 'object' ? data.attacker?.name : data.attacker;
+  if (attackerName) {
+    death.attacker = String(attackerName);
+  }
+
+  const stats = deathStats.recordDeath(player.gameId, player.name, death);
+  const where = death.position ? ` at (${Math.round(death.position.x)}, ${Math.round(death.position.y)}, ${Math.round(death.position.z)})` : '';
+  const how = [death.cause, death.attacker && `by ${death.attacker}`].filter(Boolean).join(' ');
+  logger.info(`[DEATH] ${player.name} died${how ? ` (${how})` : ''}${where} - death #${stats.deaths}`);
+
+  if (!isConnectedToTakaro) {
+    return;
+  }
+
+  // Takaro links the attacker only if it is a player
+  const attackerPlayer = death.attacker ? findEventPlayer(death.attacker) : undefined;
+  await sendPlayerEvent('player-death', player.name, timestamp, player.gameId, {
+    ...(death.position && { position: death.position }),
+    ...(attackerPlayer && { attacker: { name: attackerPlayer.name, gameId: attackerPlayer.gameId, steamId: attackerPlayer.steamId } }),
+    ...(death.cause && { cause: death.cause }),
+    ...(death.attacker && !attackerPlayer && { attackerName: death.attacker })
+  });
 }
 
 /**
@@ -641,12 +986,15 @@ async function handleTakaroRequest(message: any) {
         // Check if server is running (using cached flag, like Astroneer checks isConnectedToRcon)
         responsePayload = {
           connectable: isServerRunning,
-          reason: isServerRunning ? null : 'Palworld server not running'
+          reason: isServerRunning ? null : `Palworld server not running (${liveness.describeLiveness()})`
         };
         break;
 
       case 'getPlayers':
-        responsePayload = await handleGetPlayers();
+        responsePayload = (await handleGetPlayers()).map(player => ({
+          ...player,
+          guild: guilds.getGuildForPlayer(player.gameId)?.name
+        }));
         break;
 
       case 'getServerInfo':
@@ -666,11 +1014,18 @@ async function handleTakaroRequest(message: any) {
         if (args) {
           const messageArgs = typeof args === 'string' ? JSON.parse(args) : args;
           const message = messageArgs.message || '';
-
-          // Use message as-is (already formatted by module)
-          responsePayload = await handleExecuteCommand({
-            command: `announce ${message}`
-          });
+          const recipient = messageArgs.opts?.recipient || messageArgs.recipient;
+
+          if (recipient) {
+            // Private message to one player instead of a server-wide announcement
+            const recipientId = typeof recipient === 'string' ? recipient
+              : typeof recipient.gameId === 'string' ? recipient.gameId : undefined;
+            responsePayload = recipientId
+              ? await handleWhisper(recipientId, message)
+              : { success: false, error: 'Invalid recipient: expected a gameId or an object with a gameId' };
+          } else {
+            responsePayload = await handleAnnounce(message);
+          }
         } else {
           responsePayload = { success: false, error: 'No message provided' };
         }
@@ -698,7 +1053,7 @@ async function handleTakaroRequest(message: any) {
         break;
 
       case 'listBans':
-        responsePayload = [];
+        responsePayload = banLedger.toTakaroBans();
         break;
 
       case 'getPlayerLocation':
@@ -710,7 +1065,7 @@ async function handleTakaroRequest(message: any) {
         break;
 
       case 'giveItem':
-        responsePayload = await handleGiveItem(args);
+        responsePayload = await handleGiveItem(args, requestId);
         break;
 
       case 'teleportPlayer':
@@ -718,18 +1073,32 @@ async function handleTakaroRequest(message: any) {
         break;
 
       case 'listItems':
-        // Palworld API doesn't provide item list, return empty array
-        responsePayload = [];
+        // Palworld API doesn't provide an item list, serve the bundled catalog
+        responsePayload = itemCatalog.toTakaroItems();
         break;
 
       case 'listEntities':
-        // Palworld API doesn't provide entity list, return empty array
-        responsePayload = [];
+        // Palworld API doesn't provide an entity list, serve the bundled Pal catalog
+        responsePayload = palCatalog.toTakaroEntities();
+        break;
+
+      case 'givePal':
+        responsePayload = await handleGivePal(args, 'give');
+        break;
+
+      case 'spawnPal':
+        responsePayload = await handleGivePal(args, 'spawn');
         break;
 
       case 'listLocations':
-        // Palworld API doesn't provide location list, return empty array
-        responsePayload = [];
+        // Palworld API doesn't provide locations, serve the bridge's waypoints
+        responsePayload = waypoints.listWaypoints().map(waypoint => ({
+          code: waypoint.name,
+          name: waypoint.name,
+          x: waypoint.x,
+          y: waypoint.y,
+          z: waypoint.z
+        }));
         break;
 
       default:
@@ -746,9 +1115,6 @@ async function handleTakaroRequest(message: any) {
   sendTakaroResponse(requestId, responsePayload);
 }
 
-/**
- * Check if Palworld server process is running and update flag
- */
 /**
  * Clear all cached state when server restarts
  * This prevents stale data from causing crashes after server restart
@@ -758,22 +1124,30 @@ function clearBridgeState() {
 
   // Clear player caches
   playerCache.clear();
+  playerList.invalidatePlayers();
   playerInventories.clear();
   playerNameToSteamId.clear();
 
-  // Clear pending requests
-  teleportQueue.length = 0;
+  // Clear pending lookups; item, Pal and teleport jobs wait until their players are back (teleports only until their deadline)
+  jobQueue.clearJobs('location');
+  jobQueue.playerDisconnected();
   activeLocationRequests.clear();
 
+  // Start player detection over, so the first poll after the restart releases jobs for everyone online
+  lastKnownPlayers = new Set();
+  hasInitializedPlayerList = false;
+
   logger.info('[STATE RESET] Bridge state cleared successfully');
 }
 
+/**
+ * Check if Palworld server is running and update flag
+ */
 async function checkServerStatus() {
   try {
-    const { stdout } = await execPromise('tasklist /FI "IMAGENAME eq PalServer-Win64-Shipping-Cmd.exe" /NH');
     const wasRunning = isServerRunning;
-    // tasklist truncates long names, so check for the truncated version
-    isServerRunning = stdout.includes('PalServer-Win64-Shipping');
+    // Debounced result of the configured liveness strategy (see liveness.ts)
+    isServerRunning = await liveness.checkLiveness();
 
     if (isServerRunning !== wasRunning) {
       logger.info(`Palworld server status changed: ${isServerRunning ? 'ONLINE' : 'OFFLINE'}`);
@@ -784,7 +1158,7 @@ async function checkServerStatus() {
       }
     }
   } catch (error: any) {
-    logger.error(`Failed to check Palworld server process: ${error.message}`);
+    logger.error(`Failed to check Palworld server status: ${error.message}`);
     isServerRunning = false;
   }
 }
@@ -806,46 +1180,17 @@ function startServerMonitoring() {
 
 /**
  * Get current players from Palworld server
+ * Reads are served from the player list snapshot; the poll (detectChanges) always forces a refresh
  */
-async function handleGetPlayers(detectChanges: boolean = false) {
+async function handleGetPlayers(detectChanges: boolean = false): Promise<BridgePlayer[]> {
   try {
-    const authString = Buffer.from(`${PALWORLD_USERNAME}:${PALWORLD_PASSWORD}`).toString('base64');
-
-    const config = {
-      method: 'get',
-      maxBodyLength: Infinity,
-      url: `${PALWORLD_BASE_URL}/v1/api/players`,
-      headers: {
-        'Accept': 'application/json',
-        'Authorization': `Basic ${authString}`
-      }
-    };
-
-    const response = await axios(config);
-    const players = response.data.players || [];
-
-    const mappedPlayers = players.map((player: any) => ({
-      gameId: String(player.userId),
-      name: String(player.name), // Character name (for Takaro)
-      accountName: String(player.accountName || player.name), // Steam account name (for Lua - what PlayerNamePrivate returns)
-      platformId: `palworld:${player.userId}`,
-      steamId: String(player.userId),
-      palworldPlayerId: String(player.playerId || ''), // GUID from Palworld API - matches PlayerState.PlayerId in UE4SS
-      ip: player.ip || undefined,
-      ping: player.ping !== undefined ? player.ping : undefined,
-      positionX: player.location_x !== undefined ? player.location_x : (player.x !== undefined ? player.x : undefined),
-      positionY: player.location_y !== undefined ? player.location_y : (player.y !== undefined ? player.y : undefined),
-      positionZ: player.location_z !== undefined ? player.location_z : (player.z !== undefined ? player.z : undefined)
-    }));
-
-    // Always cache player data (including accountName for Lua communication and palworldPlayerId for matching)
-    for (const player of mappedPlayers) {
-      playerCache.set(player.gameId, { gameId: player.gameId, name: player.name, accountName: player.accountName, steamId: player.steamId, palworldPlayerId: player.palworldPlayerId });
-    }
+    const mappedPlayers = detectChanges
+      ? await playerList.refreshPlayers()
+      : await playerList.getPlayers();
 
     // Only detect connect/disconnect during polling interval (not on Takaro's frequent getPlayers requests)
     if (detectChanges && isConnectedToTakaro) {
-      const currentPlayers = new Set<string>(mappedPlayers.map((p: any) => p.gameId));
+      const currentPlayers = new Set<string>(mappedPlayers.map(p => p.gameId));
 
       logger.debug(`[POLL] Current: ${currentPlayers.size} players, Last known: ${lastKnownPlayers.size} players`);
 
@@ -855,6 +1200,7 @@ async function handleGetPlayers(detectChanges: boolean = false) {
         for (const player of mappedPlayers) {
           if (!lastKnownPlayers.has(player.gameId)) {
             logger.info(`[CONNECT DETECTED] Player joined: ${player.name} (gameId: ${player.gameId})`);
+            jobQueue.playerConnected(player.gameId);
             await sendPlayerEvent('player-connected', player.name, new Date().toISOString(), player.gameId);
           }
         }
@@ -862,15 +1208,18 @@ async function handleGetPlayers(detectChanges: boolean = false) {
         // Detect disconnected players
         for (const lastPlayerId of lastKnownPlayers) {
           if (!currentPlayers.has(lastPlayerId)) {
-            const cachedPlayer = playerCache.get(lastPlayerId);
+            const cachedPlayer = playerCache.get(lastPlayerId) || playerRegistry.getRegisteredPlayer(lastPlayerId);
             const playerName = cachedPlayer ? cachedPlayer.name : lastPlayerId;
             logger.info(`[DISCONNECT DETECTED] Player left: ${playerName} (gameId: ${lastPlayerId})`);
+            jobQueue.playerDisconnected(lastPlayerId);
             await sendPlayerEvent('player-disconnected', playerName, new Date().toISOString(), lastPlayerId);
           }
         }
       } else {
         logger.debug(`[POLL] First poll - initializing player list with ${currentPlayers.size} players`);
         hasInitializedPlayerList = true;
+        // Release jobs restored from disk for players who are already online
+        currentPlayers.forEach(gameId => jobQueue.playerConnected(gameId));
       }
 
       lastKnownPlayers = currentPlayers;
@@ -879,7 +1228,7 @@ async function handleGetPlayers(detectChanges: boolean = false) {
     return mappedPlayers;
   } catch (error: any) {
     logger.error(`Failed to get players: ${error.message}`);
-    return [];
+    throw error;
   }
 }
 
@@ -888,24 +1237,12 @@ async function handleGetPlayers(detectChanges: boolean = false) {
  */
 async function handleGetServerInfo() {
   try {
-    const authString = Buffer.from(`${PALWORLD_USERNAME}:${PALWORLD_PASSWORD}`).toString('base64');
-
-    const config = {
-      method: 'get',
-      maxBodyLength: Infinity,
-      url: `${PALWORLD_BASE_URL}/v1/api/info`,
-      headers: {
-        'Accept': 'application/json',
-        'Authorization': `Basic ${authString}`
-      }
-    };
-
-    const response = await axios(config);
-    logger.info(`Got server info: ${response.data.servername}`);
-    return response.data;
+    const info = await palworldApi.getServerInfo();
+    logger.info(`Got server info: ${info.servername}`);
+    return info;
   } catch (error: any) {
     logger.error(`Failed to get server info: ${error.message}`);
-    return {};
+    throw error;
   }
 }
 
@@ -914,24 +1251,12 @@ async function handleGetServerInfo() {
  */
 async function handleGetServerSettings() {
   try {
-    const authString = Buffer.from(`${PALWORLD_USERNAME}:${PALWORLD_PASSWORD}`).toString('base64');
-
-    const config = {
-      method: 'get',
-      maxBodyLength: Infinity,
-      url: `${PALWORLD_BASE_URL}/v1/api/settings`,
-      headers: {
-        'Accept': 'application/json',
-        'Authorization': `Basic ${authString}`
-      }
-    };
-
-    const response = await axios(config);
+    const settings = await palworldApi.getServerSettings();
     logger.info('Got server settings');
-    return response.data;
+    return settings;
   } catch (error: any) {
     logger.error(`Failed to get server settings: ${error.message}`);
-    return {};
+    throw error;
   }
 }
 
@@ -940,30 +1265,44 @@ async function handleGetServerSettings() {
  */
 async function handleGetServerMetrics() {
   try {
-    const authString = Buffer.from(`${PALWORLD_USERNAME}:${PALWORLD_PASSWORD}`).toString('base64');
-
-    const config = {
-      method: 'get',
-      maxBodyLength: Infinity,
-      url: `${PALWORLD_BASE_URL}/v1/api/metrics`,
-      headers: {
-        'Accept': 'application/json',
-        'Authorization': `Basic ${authString}`
-      }
-    };
-
-    const response = await axios(config);
+    const serverMetrics = await palworldApi.getServerMetrics();
     logger.info('Got server metrics');
-    return response.data;
+    return serverMetrics;
   } catch (error: any) {
     logger.error(`Failed to get server metrics: ${error.message}`);
-    return {};
+    throw error;
   }
 }
 
 // Track active location requests to prevent duplicates
 const activeLocationRequests = new Set<string>();
 
+/**
+ * Ask the mod for a player's position (by display name)
+ * Rejects with RequestTimeoutError if the mod doesn't answer in time.
+ */
+async function requestPlayerLocation(playerName: string): Promise<LocationResponse> {
+  // Generate unique request ID
+  const requestId = `loc_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+  // Queue location request for Lua to process (using name)
+  const request: LocationRequest = {
+    name: playerName,
+    requestId,
+    timestamp: new Date().toISOString()
+  };
+  jobQueue.enqueueJob('location', { ...request }, { jobId: requestId });
+
+  logger.debug(`[LOCATION] Queued request ${requestId} for ${playerName}`);
+
+  try {
+    return await locationBroker.register(requestId, MOD_RESPONSE_TIMEOUT);
+  } finally {
+    // Drop the job whether answered or not (a late location is of no use)
+    jobQueue.cancelJob(requestId);
+  }
+}
+
 /**
  * Get player location by player ID
  */
@@ -1005,59 +1344,25 @@ async function handleGetPlayerLocation(args: any) {
     // Mark request as active
     activeLocationRequests.add(playerId);
 
-    // Generate unique request ID
-    const requestId = `loc_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-    // Queue location request for Lua to process (using name)
-    locationRequestQueue.push({
-      name: cachedPlayer.name,
-      requestId,
-      timestamp: new Date().toISOString()
-    });
-
-    logger.debug(`[LOCATION] Queued request ${requestId} for ${cachedPlayer.name} (${playerId})`);
-
     // Wait for response from Lua (with timeout)
-    const timeout = 5000;
-    const startTime = Date.now();
-
-    while (Date.now() - startTime < timeout) {
-      const responseIndex = locationResponseQueue.findIndex(r => r.requestId === requestId);
-
-      if (responseIndex !== -1) {
-        const response = locationResponseQueue[responseIndex];
-        locationResponseQueue.splice(responseIndex, 1);
-
-        logger.debug(`[LOCATION] Got response for ${playerId}: (${response.x}, ${response.y}, ${response.z})`);
-
-        // Remove from active requests
-        activeLocationRequests.delete(playerId);
-
-        // Remove the request from queue now that we got response
-        const queueIndex = locationRequestQueue.findIndex(r => r.requestId === requestId);
-        if (queueIndex !== -1) {
-          locationRequestQueue.splice(queueIndex, 1);
-        }
+    try {
+      const response = await requestPlayerLocation(cachedPlayer.name);
+      logger.debug(`[LOCATION] Got response for ${playerId}: (${response.x}, ${response.y}, ${response.z})`);
 
-        return {
-          x: response.x,
-          y: response.y,
-          z: response.z
-        };
+      return {
+        x: response.x,
+        y: response.y,
+        z: response.z
+      };
+    } catch (error: any) {
+      if (!(error instanceof RequestTimeoutError)) {
+        throw error;
       }
-
-      await new Promise(resolve => setTimeout(resolve, 100));
-    }
-
-    // Remove from active requests AND delete from queue on timeout
-    activeLocationRequests.delete(playerId);
-    const queueIndex = locationRequestQueue.findIndex(r => r.requestId === requestId);
-    if (queueIndex !== -1) {
-      locationRequestQueue.splice(queueIndex, 1);
-      logger.debug(`[LOCATION] Removed timed out request ${requestId} from queue`);
+      logger.warn(`[LOCATION] Timeout waiting for location of ${playerId}`);
+      return { x: 0, y: 0, z: 0 };
+    } finally {
+      activeLocationRequests.delete(playerId);
     }
-    logger.warn(`[LOCATION] Timeout waiting for location of ${playerId}`);
-    return { x: 0, y: 0, z: 0 };
 
   } catch (error: any) {
     // Remove from active requests on error
@@ -1085,8 +1390,7 @@ async function handleGetPlayerInventory(args: any) {
 
     // Try to find inventory by player ID or name
     // Since we cache by name, we need to get the player's name first
-    const players = await handleGetPlayers();
-    const player = players.find((p: any) => p.gameId === playerId || p.steamId === playerId || p.name === playerId);
+    const player = await playerList.findPlayer(p => p.gameId === playerId || p.steamId === playerId || p.name === playerId);
 
     if (!player) {
       logger.warn(`Player ${playerId} not found for inventory lookup`);
@@ -1109,106 +1413,404 @@ async function handleGetPlayerInventory(args: any) {
 /**
  * Give an item to a player
  */
-async function handleGiveItem(args: any) {
+async function handleGiveItem(args: any, takaroRequestId?: string) {
   try {
     const itemArgs = typeof args === 'string' ? JSON.parse(args) : args;
     const playerId = itemArgs.gameId || itemArgs.playerId || itemArgs.userId;
-    const itemId = itemArgs.itemId || itemArgs.item;
-    const quantity = itemArgs.quantity || itemArgs.amount || 1;
+    const requestedItem: string | undefined = itemArgs.itemId || itemArgs.item;
+    const requestedQuantity = Number(itemArgs.quantity || itemArgs.amount || 1);
+    // Idempotency key: shop order ID or request ID sent by the caller, else Takaro's request ID
+    const idempotencyKey: string | undefined = itemArgs.idempotencyKey || itemArgs.orderId || itemArgs.requestId || takaroRequestId;
 
     if (!playerId) {
       logger.error('[ITEMS] No player ID provided for giveItem');
       return { success: false, error: 'No player ID provided' };
     }
 
-    if (!itemId) {
+    if (!requestedItem) {
       logger.error('[ITEMS] No item ID provided for giveItem');
       return { success: false, error: 'No item ID provided' };
     }
 
-    // Get player's name from cache
-    const players = await handleGetPlayers();
-    const player = players.find((p: any) => p.gameId === playerId || p.steamId === playerId || p.name === playerId);
-
-    if (!player) {
-      logger.warn(`[ITEMS] Player ${playerId} not found`);
-      return { success: false, error: 'Player not found' };
+    if (!Number.isInteger(requestedQuantity) || requestedQuantity < 1) {
+      logger.warn(`[ITEMS] Invalid quantity ${itemArgs.quantity ?? itemArgs.amount} for giveItem`);
+      return { success: false, error: `Invalid quantity: ${itemArgs.quantity ?? itemArgs.amount}` };
     }
 
-    const playerName = player.accountName; // Use accountName for Lua
-
-    // Generate unique request ID
-    const requestId = `item_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    // Resolve display names to the internal ID, clamp to the stack size
+    const match = itemCatalog.resolveItem(String(requestedItem));
+    let itemId = String(requestedItem);
+    let quantity = requestedQuantity;
+    if (match.item) {
+      itemId = match.item.id;
+      quantity = Math.min(requestedQuantity, match.item.maxStack);
+      if (itemId !== requestedItem) {
+        logger.info(`[ITEMS] Resolved "${requestedItem}" to ${itemId}`);
+      }
+      if (quantity < requestedQuantity) {
+        logger.info(`[ITEMS] Clamped ${requestedQuantity}x ${itemId} to the max stack of ${quantity}`);
+      }
+    } else if (ITEM_CATALOG_STRICT) {
+      const suggestions = match.suggestions.map(item => `${item.name} (${item.id})`);
+      logger.warn(`[ITEMS] Unknown item "${requestedItem}" for giveItem`);
+      return {
+        success: false,
+        error: `Unknown item: ${requestedItem}${suggestions.length > 0 ? `. Did you mean: ${suggestions.join(', ')}?` : ''}`,
+        suggestions: match.suggestions.map(item => item.id)
+      };
+    } else {
+      const similar = match.suggestions.length > 0 ? ` (similar: ${match.suggestions.map(item => item.id).join(', ')})` : '';
+      logger.warn(`[ITEMS] Item "${requestedItem}" is not in the catalog, passing it through${similar}`);
+    }
+    const clamped = quantity < requestedQuantity ? { clamped: true, requestedQuantity } : {};
+
+    // Repeated request: report the recorded outcome instead of giving the item again
+    const previous = idempotencyKey ? deliveryLedger.getDelivery(idempotencyKey) : undefined;
+    if (previous) {
+      logger.info(`[ITEMS] Duplicate giveItem ${idempotencyKey} (${previous.status}), not queuing again`);
+      if (previous.status === 'delivered') {
+        return { success: true, duplicate: true, playerName: previous.playerName, itemId: previous.itemId, quantity: previous.quantity };
+      }
+      if (previous.status === 'failed') {
+        return { success: false, duplicate: true, error: previous.error || 'Delivery failed' };
+      }
+      return { success: true, duplicate: true, pending: true, message: `Delivery ${previous.requestId} is still pending` };
+    }
+
+    // Get player's name from cache
+    const player = await playerList.findPlayer(p => p.gameId === playerId || p.steamId === playerId || p.name === playerId);
+
+    if (!player) {
+      logger.warn(`[ITEMS] Player ${playerId} not found`);
+      return { success: false, error: 'Player not found' };
+    }
+
+    const playerName = player.accountName; // Use accountName for Lua
+
+    // Generate unique request ID
+    const requestId = `item_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
     // Queue item request for Lua to process (using accountName)
-    itemRequestQueue.push({
+    const request: ItemRequest = {
       playerName,
       itemId,
       quantity,
       requestId,
       timestamp: new Date().toISOString()
+    };
+    deliveryLedger.recordDelivery({
+      key: idempotencyKey || requestId,
+      requestId,
+      type: 'item',
+      playerId: player.gameId,
+      playerName: player.name,
+      itemId,
+      quantity
     });
+    jobQueue.enqueueJob('item', { ...request }, { jobId: requestId, playerId: player.gameId });
 
     logger.info(`[ITEMS] Queued request ${requestId}: Give ${quantity}x ${itemId} to ${player.name}`);
 
     // Wait for response from Lua (with timeout)
-    const timeout = 5000;
-    const startTime = Date.now();
+    try {
+      const response = await itemBroker.register(requestId, MOD_RESPONSE_TIMEOUT);
+      if (!response.success && jobQueue.getJob(requestId)) {
+        // Deferred by /item-response: the player went offline before the give
+        return { success: true, pending: true, message: `${player.name} is offline, the item will be given when they reconnect` };
+      }
+      return {
+        success: response.success,
+        playerName: response.playerName,
+        itemId: response.itemId,
+        quantity: response.quantity,
+        ...clamped
+      };
+    } catch (error: any) {
+      if (!(error instanceof RequestTimeoutError)) {
+        throw error;
+      }
+      // The job stays queued and is retried until the mod acks it or it is dead-lettered,
+      // so report it as pending - a failure would make Takaro refund an item that is still coming
+      logger.warn(`[ITEMS] Timeout waiting for item give response for ${playerId}, request ${requestId} stays queued`);
+      return { success: true, pending: true, message: 'No response from the game yet, the item will be retried' };
+    }
 
-    while (Date.now() - startTime < timeout) {
-      const responseIndex = itemResponseQueue.findIndex(r => r.requestId === requestId);
+  } catch (error: any) {
+    logger.error(`[ITEMS] Failed to give item: ${error.message}`);
+    return { success: false, error: error.message };
+  }
+}
 
-      if (responseIndex !== -1) {
-        const response = itemResponseQueue[responseIndex];
-        itemResponseQueue.splice(responseIndex, 1);
+/**
+ * Announce a message from Takaro (sanitized and split by announcements.ts)
+ * Placeholders are left alone: the text may be relayed from Discord or players.
+ */
+async function handleAnnounce(message: string) {
+  try {
+    const chunks = await announcements.announce(message);
+    logger.info(`Announced message from Takaro${chunks.length > 1 ? ` (${chunks.length} parts)` : ''}`);
+    return { success: true, parts: chunks.length };
+  } catch (error: any) {
+    logger.error(`Failed to announce message: ${error.message}`);
+    return { success: false, error: error.message };
+  }
+}
 
-        // Remove the request from queue now that we got response
-        const queueIndex = itemRequestQueue.findIndex(r => r.requestId === requestId);
-        if (queueIndex !== -1) {
-          itemRequestQueue.splice(queueIndex, 1);
-        }
+/**
+ * Send a private message to one online player through the mod
+ * Falls back to a server announcement if WHISPER_FALLBACK_BROADCAST is set and the mod can't deliver it.
+ * Placeholders are only filled in for messages from the console (fromOperator).
+ */
+async function handleWhisper(recipient: string, message: string, fromOperator = false) {
+  if (!recipient || !message) {
+    return { success: false, error: 'A recipient and a message are required' };
+  }
 
-        return {
-          success: response.success,
-          playerName: response.playerName,
-          itemId: response.itemId,
-          quantity: response.quantity
-        };
+  try {
+    const player = await playerList.findPlayer(p =>
+      p.gameId === recipient || p.steamId === recipient || p.name.toLowerCase() === String(recipient).toLowerCase()
+    );
+    if (!player) {
+      logger.warn(`[WHISPER] ${recipient} is not online, message dropped`);
+      return { success: false, error: `Player ${recipient} is not online` };
+    }
+
+    const text = await announcements.renderMessage(message, { player: player.name, placeholders: fromOperator });
+    if (!text) {
+      return { success: false, error: 'Message is empty after formatting' };
+    }
+
+    // Generate unique request ID (also used as the job ID)
+    const requestId = `whisper_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const request: WhisperRequest = {
+      playerName: player.accountName,
+      message: text,
+      requestId,
+      timestamp: new Date().toISOString()
+    };
+    jobQueue.enqueueJob('whisper', { ...request }, { jobId: requestId, playerId: player.gameId });
+
+    let error: string;
+    try {
+      const response = await whisperBroker.register(requestId, MOD_RESPONSE_TIMEOUT);
+      if (response.success) {
+        logger.info(`[WHISPER] To ${player.name}: ${text}`);
+        return { success: true, recipient: player.name, delivery: 'whisper' };
       }
+      error = response.error || 'The game could not deliver the message';
+    } catch (timeoutError: any) {
+      if (!(timeoutError instanceof RequestTimeoutError)) {
+        throw timeoutError;
+      }
+      error = 'No response from the game (is the TakaroChat mod up to date?)';
+    } finally {
+      // A whisper that arrives much later is worse than none
+      jobQueue.cancelJob(requestId);
+    }
+
+    if (!WHISPER_FALLBACK_BROADCAST) {
+      logger.warn(`[WHISPER] Could not deliver message to ${player.name}: ${error}`);
+      return { success: false, error };
+    }
+    logger.warn(`[WHISPER] Could not deliver message to ${player.name} (${error}), broadcasting instead`);
+    await announcements.announce(`@${player.name}: ${text}`);
+    return { success: true, recipient: player.name, delivery: 'broadcast' };
+  } catch (error: any) {
+    logger.error(`[WHISPER] Failed to send message to ${recipient}: ${error.message}`);
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * Give Pals to a player (into their Pal box) or spawn them next to the player
+ */
+async function handleGivePal(args: any, mode: PalMode) {
+  try {
+    const palArgs = typeof args === 'string' ? JSON.parse(args) : args;
+    const playerId = palArgs.gameId || palArgs.playerId || palArgs.userId;
+    const requestedPal: string | undefined = palArgs.palId || palArgs.pal || palArgs.entity || palArgs.code;
+    const level = Number(palArgs.level || 1);
+    const count = Number(palArgs.count || palArgs.quantity || palArgs.amount || 1);
 
-      await new Promise(resolve => setTimeout(resolve, 100));
+    if (!playerId) {
+      logger.error(`[PALS] No player ID provided for ${mode}Pal`);
+      return { success: false, error: 'No player ID provided' };
+    }
+
+    if (!requestedPal) {
+      logger.error(`[PALS] No Pal provided for ${mode}Pal`);
+      return { success: false, error: 'No Pal provided' };
+    }
+
+    if (!Number.isInteger(level) || level < 1 || level > palCatalog.MAX_PAL_LEVEL) {
+      return { success: false, error: `Invalid level: ${palArgs.level} (1-${palCatalog.MAX_PAL_LEVEL})` };
+    }
+
+    if (!Number.isInteger(count) || count < 1 || count > PAL_MAX_COUNT) {
+      return { success: false, error: `Invalid count: ${palArgs.count ?? palArgs.quantity ?? palArgs.amount} (1-${PAL_MAX_COUNT})` };
+    }
+
+    const match = palCatalog.resolvePal(String(requestedPal));
+    let pal = match.pal;
+    // Species missing from the catalog are passed through if they look like a character ID
+    if (!pal && !PAL_CATALOG_STRICT && palCatalog.isValidPalId(String(requestedPal))) {
+      const similar = match.suggestions.length > 0 ? ` (similar: ${match.suggestions.map(p => p.id).join(', ')})` : '';
+      logger.warn(`[PALS] Pal "${requestedPal}" is not in the catalog, passing it through${similar}`);
+      pal = { id: String(requestedPal), name: String(requestedPal), elements: [], rarity: 'Unknown' };
+    }
+    if (!pal) {
+      const suggestions = match.suggestions.map(p => `${p.name} (${p.id})`);
+      logger.warn(`[PALS] Unknown Pal "${requestedPal}" for ${mode}Pal`);
+      return {
+        success: false,
+        error: `Unknown Pal: ${requestedPal}${suggestions.length > 0 ? `. Did you mean: ${suggestions.join(', ')}?` : ''}`,
+        suggestions: match.suggestions.map(p => p.id)
+      };
+    }
+
+    const player = await playerList.findPlayer(p => p.gameId === playerId || p.steamId === playerId || p.name === playerId);
+    if (!player) {
+      logger.warn(`[PALS] Player ${playerId} not found`);
+      return { success: false, error: 'Player not found' };
     }
 
-    // Timeout - remove from queue
-    const queueIndex = itemRequestQueue.findIndex(r => r.requestId === requestId);
-    if (queueIndex !== -1) {
-      itemRequestQueue.splice(queueIndex, 1);
-      logger.debug(`[ITEMS] Removed timed out request ${requestId} from queue`);
+    // Generate unique request ID (also used as the job ID)
+    const requestId = `pal_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+    // Queue Pal request for Lua to process (using accountName, like items)
+    const request: PalRequest = {
+      playerName: player.accountName,
+      palId: pal.id,
+      level,
+      count,
+      mode,
+      requestId,
+      timestamp: new Date().toISOString()
+    };
+    deliveryLedger.recordDelivery({
+      key: requestId,
+      requestId,
+      type: 'pal',
+      playerId: player.gameId,
+      playerName: player.name,
+      itemId: pal.id,
+      quantity: count
+    });
+    jobQueue.enqueueJob('pal', { ...request }, { jobId: requestId, playerId: player.gameId });
+
+    logger.info(`[PALS] Queued request ${requestId}: ${mode} ${count}x ${pal.name} (level ${level}) for ${player.name}`);
+
+    try {
+      const response = await palBroker.register(requestId, MOD_RESPONSE_TIMEOUT);
+      if (!response.success && jobQueue.getJob(requestId)) {
+        // Deferred by /pal-response: the player went offline first
+        return { success: true, pending: true, message: `${player.name} is offline, the Pal will be given when they reconnect` };
+      }
+      return {
+        success: response.success,
+        error: response.success ? undefined : response.error || 'The game could not create the Pal',
+        playerName: player.name,
+        palId: response.palId,
+        level: response.level,
+        count: response.count
+      };
+    } catch (error: any) {
+      if (!(error instanceof RequestTimeoutError)) {
+        throw error;
+      }
+      // The job stays queued and is retried, so this is pending rather than failed (see handleGiveItem)
+      logger.warn(`[PALS] Timeout waiting for Pal response for ${playerId}, request ${requestId} stays queued`);
+      return { success: true, pending: true, message: 'No response from the game yet, the Pal will be retried' };
     }
-    logger.warn(`[ITEMS] Timeout waiting for item give response for ${playerId}`);
-    return { success: false, error: 'Timeout waiting for response' };
 
   } catch (error: any) {
-    logger.error(`[ITEMS] Failed to give item: ${error.message}`);
+    logger.error(`[PALS] Failed to ${mode} Pal: ${error.message}`);
     return { success: false, error: error.message };
   }
 }
 
+/**
+ * Queue a teleport and wait for the mod's result (and the optional position check)
+ */
+async function awaitTeleport(request: TeleportRequest, description: string): Promise<TeleportResult> {
+  // After the deadline the queue drops the job and the mod its copy (payload expiresAt, Unix seconds),
+  // instead of running it once the bridge has given up
+  const deadline = Date.now() + Math.max(TELEPORT_TIMEOUT - TELEPORT_RESPONSE_MARGIN, 1000);
+  jobQueue.enqueueJob('teleport', { ...request, expiresAt: Math.floor(deadline / 1000) }, {
+    jobId: request.requestId,
+    playerId: request.sourceSteamId,
+    expiresAt: deadline
+  });
+
+  let response: TeleportResponse;
+  try {
+    response = await teleportBroker.register(request.requestId, TELEPORT_TIMEOUT);
+  } catch (error: any) {
+    if (!(error instanceof RequestTimeoutError)) {
+      throw error;
+    }
+    logger.warn(`[TELEPORT] No result for ${description} within ${TELEPORT_TIMEOUT / 1000}s`);
+    return { success: false, error: `No teleport result from the game within ${TELEPORT_TIMEOUT / 1000}s` };
+  } finally {
+    // Don't let a teleport that was reported as failed happen later (a copy the mod already fetched expires by itself)
+    jobQueue.cancelJob(request.requestId);
+  }
+
+  if (!response.success) {
+    return { success: false, error: `Teleport failed: ${response.error || 'unknown error'}` };
+  }
+
+  const position = { x: response.x, y: response.y, z: response.z };
+  if (!TELEPORT_VERIFY) {
+    return { success: true, message: `Teleported ${description}`, position };
+  }
+
+  // Give the server a moment to settle the new position before reading it back
+  await new Promise(resolve => setTimeout(resolve, 1000));
+  try {
+    const location = await requestPlayerLocation(request.sourcePlayer);
+    const distance = Math.hypot(location.x - response.x, location.y - response.y, location.z - response.z);
+    if (distance > TELEPORT_VERIFY_TOLERANCE) {
+      logger.warn(`[TELEPORT] Verification failed for ${description}: player is ${Math.round(distance)} units from the destination`);
+      return { success: false, error: `Teleport could not be verified: player is ${Math.round(distance)} units from the destination`, position: { x: location.x, y: location.y, z: location.z } };
+    }
+    return { success: true, message: `Teleported ${description} (verified)`, position: { x: location.x, y: location.y, z: location.z } };
+  } catch (error: any) {
+    if (!(error instanceof RequestTimeoutError)) {
+      throw error;
+    }
+    return { success: false, error: 'Teleport sent, but the new position could not be read back for verification', position };
+  }
+}
+
 /**
  * Teleport a player to another player's location OR to specific coordinates
  */
-async function handleTeleportPlayer(args: any) {
+async function handleTeleportPlayer(args: any): Promise<TeleportResult> {
   const teleportArgs = typeof args === 'string' ? JSON.parse(args) : args;
   const sourcePlayer = teleportArgs.sourcePlayer || teleportArgs.playerId;
   const targetPlayer = teleportArgs.targetPlayer || teleportArgs.destinationPlayer;
-  const x = teleportArgs.x;
-  const y = teleportArgs.y;
-  const z = teleportArgs.z;
+  let x = teleportArgs.x;
+  let y = teleportArgs.y;
+  let z = teleportArgs.z;
+  let destination = `coordinates (${x}, ${y}, ${z})`;
 
   if (!sourcePlayer) {
     return { success: false, error: 'sourcePlayer is required' };
   }
 
+  // Waypoint teleport: { waypoint: "home" } or targetPlayer "@home"
+  const waypointName = teleportArgs.waypoint ||
+    (typeof targetPlayer === 'string' && targetPlayer.startsWith('@') ? targetPlayer.substring(1) : undefined);
+  if (waypointName) {
+    const waypoint = waypoints.getWaypoint(waypointName);
+    if (!waypoint) {
+      return { success: false, error: `Unknown waypoint "${waypointName}"` };
+    }
+    ({ x, y, z } = waypoint);
+    destination = `waypoint ${waypoint.name} (${x}, ${y}, ${z})`;
+  }
+
   // Check if coordinate-based teleport
   const isCoordinateTeleport = x !== undefined && y !== undefined && z !== undefined;
 
@@ -1217,11 +1819,8 @@ async function handleTeleportPlayer(args: any) {
   }
 
   try {
-    // Get all online players to validate source
-    const players = await handleGetPlayers();
-
     // Find source player
-    const source = players.find((p: any) =>
+    const source = await playerList.findPlayer(p =>
       p.name.toLowerCase() === sourcePlayer.toLowerCase() ||
       p.gameId === sourcePlayer
     );
@@ -1230,27 +1829,26 @@ async function handleTeleportPlayer(args: any) {
       return { success: false, error: `Source player "${sourcePlayer}" not found online` };
     }
 
+    // Generate unique request ID (also used as the job ID)
+    const requestId = `tp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
     // Handle coordinate teleport
     if (isCoordinateTeleport) {
-      teleportQueue.push({
+      const request: TeleportRequest = {
         sourcePlayer: source.name, // Use display name for Lua
         sourceSteamId: source.gameId, // Steam ID for reliable matching
         x,
         y,
         z,
+        requestId,
         timestamp: new Date().toISOString()
-      });
-
-      logger.info(`[TELEPORT] Queued ${source.name} -> (${x}, ${y}, ${z})`);
-
-      return {
-        success: true,
-        message: `Teleporting ${source.name} to coordinates (${x}, ${y}, ${z})`
       };
+      logger.info(`[TELEPORT] Queued ${source.name} -> ${destination}`);
+      return await awaitTeleport(request, `${source.name} to ${destination}`);
     }
 
     // Handle player-to-player teleport
-    const target = players.find((p: any) =>
+    const target = await playerList.findPlayer(p =>
       p.name.toLowerCase() === targetPlayer.toLowerCase() ||
       p.gameId === targetPlayer
     );
@@ -1260,26 +1858,56 @@ async function handleTeleportPlayer(args: any) {
     }
 
     // Add to teleport queue - Lua mod will look up target's position in-game (include Steam IDs)
-    teleportQueue.push({
+    const request: TeleportRequest = {
       sourcePlayer: source.name, // Use display name for Lua
       sourceSteamId: source.gameId, // Steam ID for reliable matching
       targetPlayer: target.name, // Use display name for Lua
       targetSteamId: target.gameId, // Steam ID for reliable matching
+      requestId,
       timestamp: new Date().toISOString()
-    });
-
-    logger.info(`[TELEPORT] Queued ${source.name} -> ${target.name}`);
-
-    return {
-      success: true,
-      message: `Teleporting ${source.name} to ${target.name}`
     };
+    logger.info(`[TELEPORT] Queued ${source.name} -> ${target.name}`);
+    return await awaitTeleport(request, `${source.name} to ${target.name}`);
   } catch (error: any) {
     logger.error(`Failed to teleport player: ${error.message}`);
     return { success: false, error: error.message };
   }
 }
 
+/**
+ * Split console arguments into a player name and the remaining arguments
+ * Tries the longest prefix first so names with spaces work ("ban Big Bob griefing").
+ * Online players are matched first, then (if includeOffline) the player registry.
+ */
+async function resolvePlayerArgs(args: string[], includeOffline: boolean = false) {
+  const matchOnline = (players: BridgePlayer[]) => {
+    for (let count = args.length; count > 0; count--) {
+      const candidate = args.slice(0, count).join(' ').toLowerCase();
+      const player = players.find(p => p.name.toLowerCase() === candidate || p.gameId.toLowerCase() === candidate);
+      if (player) {
+        return { player: { gameId: player.gameId, name: player.name }, rest: args.slice(count) };
+      }
+    }
+    return null;
+  };
+
+  const match = matchOnline(await playerList.getPlayers()) || matchOnline(await playerList.refreshPlayers());
+  if (match) {
+    return match;
+  }
+
+  if (includeOffline) {
+    for (let count = args.length; count > 0; count--) {
+      const registered = playerRegistry.findRegisteredPlayer(args.slice(0, count).join(' '));
+      if (registered) {
+        return { player: { gameId: registered.userId, name: registered.name }, rest: args.slice(count) };
+      }
+    }
+  }
+
+  return { player: null, rest: args };
+}
+
 /**
  * Execute command on Palworld server or console command
  */
@@ -1305,14 +1933,38 @@ async function handleExecuteCommand(args: any) {
   serverinfo - Get server information
   metrics - Get server metrics
   settings - Get server settings
-  announce <message> - Send announcement to server
+  announce <message> - Send announcement to server (Discord markdown is stripped, {online}/{players}/{servername} filled in)
+  announce template <name> | announce templates - Announce a named template, or list them
+  pm <player> <message> - Send a private message to one online player
   save - Save the world
-  shutdown [seconds] [message] - Shutdown server (default: 10s)
+  shutdown [seconds] [message] - Shutdown server with countdown warnings (default: 10s)
+  restart [minutes] [reason] - Warn players, save, shut down and report when the server is back
+  shutdown cancel | restart cancel - Abort a pending shutdown/restart countdown
   stop - Stop server immediately
-  ban <player> - Ban a player by name
+  ban <player> [duration] [reason] - Ban a player by name; duration (3d, 12h, 30m) makes it temporary
+  bans [import|export] [file] - List recorded bans, or sync them with banlist.txt (files are read from and written to data/)
   kick <player> - Kick a player by name
-  unban <steamid> - Unban a player by Steam ID
-  teleportplayer <source> <target> - Teleport source player to target player`
+  unban <player|steamid> - Unban a player by name (known players) or Steam ID
+  whois <player|steamid> - Show what the bridge knows about a player (online or offline)
+  deaths [player|steamid] - Show a player's deaths (count, causes, recent deaths), or the players with the most deaths
+  guilds - List guilds from the last snapshot sent by the mod
+  chatlog [player] [--since 2h] [--grep text] [--export csv|json [file]] - Search or export the chat history (exports go to data/)
+  moderation - Show players with chat strikes or relay mutes
+  unmute <player|steamid> - Lift a player's relay mute and clear their chat strikes
+  guild <name|player> - Show a guild's members (by guild name or a member's name)
+  deliveries <player|steamid> - Show a player's item and Pal delivery history
+  givepal <player> <pal> [level] [count] - Give Pals to a player's Pal box
+  spawnpal <player> <pal> [level] [count] - Spawn Pals next to a player
+  teleportplayer <source> <target> - Teleport source player to target player
+  teleportplayer <source> @<waypoint> - Teleport a player to a saved waypoint
+  waypoint add <name> <player|x y z> - Save a waypoint at a player's position or coordinates
+  waypoint remove <name> | waypoint list - Remove or list saved waypoints
+  schedule list - Show scheduled tasks with last/next run
+  schedule add <id> <cron> <command> - Schedule a command (cron: 5 fields or @hourly/@daily)
+  schedule remove <id> - Remove a scheduled task
+  schedule pause|resume <id> - Pause or resume a scheduled task
+  jobs [dead] - Show queued mod jobs, or jobs that were never acknowledged
+  jobs retry <jobId> - Requeue a dead-lettered job`
       };
 
     case 'players':
@@ -1322,12 +1974,13 @@ async function handleExecuteCommand(args: any) {
         if (players.length === 0) {
           return { success: true, rawResult: 'No players online' };
         }
-        const playerList = players.map((p: any) =>
-          `  ${p.name} (ID: ${p.gameId}, IP: ${p.ip || 'N/A'}, Ping: ${p.ping || 'N/A'})`
-        ).join('\n');
+        const playerLines = players.map(p => {
+          const guild = guilds.getGuildForPlayer(p.gameId);
+          return `  ${p.name} (ID: ${p.gameId}, IP: ${p.ip || 'N/A'}, Ping: ${p.ping || 'N/A'}${guild ? `, Guild: ${guild.name}` : ''})`;
+        }).join('\n');
         return {
           success: true,
-          rawResult: `Online Players (${players.length}):\n${playerList}`
+          rawResult: `Online Players (${players.length}):\n${playerLines}`
         };
       } catch (error: any) {
         return { success: false, rawResult: `Error: ${error.message}` };
@@ -1367,42 +2020,65 @@ async function handleExecuteCommand(args: any) {
         return { success: false, rawResult: `Error: ${error.message}` };
       }
 
-    case 'announce':
-      const announceMessage = cmdArguments.join(' ');
+    case 'announce': {
+      const announceMode = (cmdArguments[0] || '').toLowerCase();
+      if (announceMode === 'templates') {
+        const templates = announcements.listTemplates();
+        if (templates.length === 0) {
+          return { success: true, rawResult: 'No announcement templates (add ANNOUNCE_TEMPLATE_<NAME> entries to TakaroConfig.txt)' };
+        }
+        const lines = templates.map(template => `  ${template.name} - ${template.text}`);
+        return { success: true, rawResult: `Announcement templates:\n${lines.join('\n')}` };
+      }
+
+      let announceMessage = cmdArguments.join(' ');
+      if (announceMode === 'template') {
+        const template = cmdArguments[1] ? announcements.getTemplate(cmdArguments[1]) : undefined;
+        if (!template) {
+          return { success: false, rawResult: `Unknown template "${cmdArguments[1] || ''}" (see "announce templates")` };
+        }
+        announceMessage = template;
+      }
       if (!announceMessage) {
-        return { success: false, rawResult: 'Usage: announce <message>' };
+        return { success: false, rawResult: 'Usage: announce <message> | announce template <name>' };
       }
       try {
-        const authString = Buffer.from(`${PALWORLD_USERNAME}:${PALWORLD_PASSWORD}`).toString('base64');
-        const data = JSON.stringify({ message: announceMessage });
-        const config = {
-          method: 'post',
-          maxBodyLength: Infinity,
-          url: `${PALWORLD_BASE_URL}/v1/api/announce`,
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Basic ${authString}`
-          },
-          data: data
-        };
-        await axios(config);
-        logger.info('Message announced successfully');
-        return { success: true, rawResult: `Announced: "${announceMessage}"` };
+        const chunks = await announcements.announce(announceMessage, { placeholders: true });
+        logger.info(`Message announced successfully${chunks.length > 1 ? ` (${chunks.length} parts)` : ''}`);
+        return { success: true, rawResult: `Announced: "${chunks.join(' ')}"${chunks.length > 1 ? ` (in ${chunks.length} parts)` : ''}` };
       } catch (error: any) {
         logger.error(`Failed to announce message: ${error.message}`);
         return { success: false, rawResult: `Error: ${error.message}` };
       }
+    }
 
-    case 'save':
+    case 'pm':
+    case 'whisper':
+      if (cmdArguments.length < 2) {
+        return { success: false, rawResult: 'Usage: pm <player> <message>' };
+      }
       try {
-        const authString = Buffer.from(`${PALWORLD_USERNAME}:${PALWORLD_PASSWORD}`).toString('base64');
-        const config = {
-          method: 'post',
-          maxBodyLength: Infinity,
-          url: `${PALWORLD_BASE_URL}/v1/api/save`,
-          headers: { 'Authorization': `Basic ${authString}` }
+        const { player, rest } = await resolvePlayerArgs(cmdArguments);
+        if (!player || rest.length === 0) {
+          return { success: false, rawResult: 'Player not found online (usage: pm <player> <message>)' };
+        }
+        const result: any = await handleWhisper(player.gameId, rest.join(' '), true);
+        if (!result.success) {
+          return { success: false, rawResult: result.error };
+        }
+        return {
+          success: true,
+          rawResult: result.delivery === 'broadcast'
+            ? `Could not whisper ${player.name}, announced the message instead`
+            : `Message sent to ${player.name}`
         };
-        await axios(config);
+      } catch (error: any) {
+        return { success: false, rawResult: `Error: ${error.message}` };
+      }
+
+    case 'save':
+      try {
+        await palworldApi.saveWorld();
         logger.info('World saved successfully');
         return { success: true, rawResult: 'World saved successfully' };
       } catch (error: any) {
@@ -1411,43 +2087,36 @@ async function handleExecuteCommand(args: any) {
       }
 
     case 'shutdown':
+    case 'restart':
       try {
-        let waittime = 10;
-        let shutdownMsg = 'Server shutting down';
+        if (cmdArguments[0]?.toLowerCase() === 'cancel') {
+          const result = restartManager.cancelRestart();
+          return { success: result.cancelled, rawResult: result.message };
+        }
+
+        // shutdown takes seconds (default 10), restart takes minutes (default: longest warning)
+        const defaultSeconds = cmd === 'shutdown' ? 10 : Math.max(60, ...RESTART_WARNINGS);
+        let seconds = defaultSeconds;
+        let reason = '';
 
         // Check if first argument is a number
         if (cmdArguments.length > 0) {
-          const parsedTime = parseInt(cmdArguments[0]);
-          if (!isNaN(parsedTime)) {
-            // First arg is a number, use it as waittime
-            waittime = parsedTime;
+          const parsedTime = parseFloat(cmdArguments[0]);
+          if (!isNaN(parsedTime) && parsedTime >= 0) {
+            // First arg is a number, use it as the countdown
+            seconds = Math.round(cmd === 'shutdown' ? parsedTime : parsedTime * 60);
             // Everything after is the message
-            if (cmdArguments.length > 1) {
-              shutdownMsg = cmdArguments.slice(1).join(' ');
-            }
+            reason = cmdArguments.slice(1).join(' ');
           } else {
             // First arg is NOT a number, all args are the message
-            shutdownMsg = cmdArguments.join(' ');
+            reason = cmdArguments.join(' ');
           }
         }
 
-        const authString = Buffer.from(`${PALWORLD_USERNAME}:${PALWORLD_PASSWORD}`).toString('base64');
-        const data = JSON.stringify({ waittime, message: shutdownMsg });
-        const config = {
-          method: 'post',
-          maxBodyLength: Infinity,
-          url: `${PALWORLD_BASE_URL}/v1/api/shutdown`,
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Basic ${authString}`
-          },
-          data: data
-        };
-        await axios(config);
-        logger.info('Server shutdown initiated');
-        return { success: true, rawResult: `Server shutting down in ${waittime} seconds: "${shutdownMsg}"` };
+        const summary = restartManager.scheduleRestart(cmd === 'shutdown' ? 'shutdown' : 'restart', seconds, reason);
+        return { success: true, rawResult: `${summary} (use "${cmd} cancel" to abort)` };
       } catch (error: any) {
-        logger.error(`Failed to shutdown server: ${error.message}`);
+        logger.error(`Failed to schedule ${cmd}: ${error.message}`);
         return { success: false, rawResult: `Error: ${error.message}` };
       }
 
@@ -1463,18 +2132,24 @@ async function handleExecuteCommand(args: any) {
 
     case 'ban':
       if (cmdArguments.length === 0) {
-        return { success: false, rawResult: 'Usage: ban <player_name>' };
+        return { success: false, rawResult: 'Usage: ban <player_name> [duration e.g. 3d, 12h, 30m] [reason]' };
       }
       try {
-        const playerName = cmdArguments.join(' ');
-        const players = await handleGetPlayers();
-        const player = players.find((p: any) => p.name.toLowerCase() === playerName.toLowerCase());
+        // Offline players can be banned too, as long as the registry knows them
+        const { player, rest } = await resolvePlayerArgs(cmdArguments, true);
         if (!player) {
-          return { success: false, rawResult: `Player "${playerName}" not found online` };
+          return { success: false, rawResult: `Player "${cmdArguments.join(' ')}" not found online or in the player registry` };
         }
-        const result = await handleBanPlayer({ gameId: player.gameId });
+
+        // Optional duration right after the name makes it a temporary ban
+        const duration = rest.length > 0 ? parseDuration(rest[0]) : null;
+        const reason = (duration ? rest.slice(1) : rest).join(' ');
+        const expiresAt = duration ? new Date(Date.now() + duration).toISOString() : null;
+
+        const result = await handleBanPlayer({ gameId: player.gameId, reason, issuer: 'Console', expiresAt });
+        const banLength = duration ? ` for ${formatDuration(duration)}` : '';
         return result.success
-          ? { success: true, rawResult: `Banned player: ${player.name} (${player.gameId})` }
+          ? { success: true, rawResult: `Banned player: ${player.name} (${player.gameId})${banLength}${reason ? ` - ${reason}` : ''}` }
           : { success: false, rawResult: result.error };
       } catch (error: any) {
         return { success: false, rawResult: `Error: ${error.message}` };
@@ -1486,8 +2161,7 @@ async function handleExecuteCommand(args: any) {
       }
       try {
         const playerName = cmdArguments.join(' ');
-        const players = await handleGetPlayers();
-        const player = players.find((p: any) => p.name.toLowerCase() === playerName.toLowerCase());
+        const player = await playerList.findPlayer(p => p.name.toLowerCase() === playerName.toLowerCase());
         if (!player) {
           return { success: false, rawResult: `Player "${playerName}" not found online` };
         }
@@ -1501,10 +2175,14 @@ async function handleExecuteCommand(args: any) {
 
     case 'unban':
       if (cmdArguments.length === 0) {
-        return { success: false, rawResult: 'Usage: unban <steam_id>' };
+        return { success: false, rawResult: 'Usage: unban <player_name|steam_id>' };
       }
       try {
-        const userId = cmdArguments[0];
+        // Banned players are offline, so resolve names through the registry
+        const identifier = cmdArguments.join(' ');
+        const userId = playerRegistry.findRegisteredPlayer(identifier)?.userId ||
+          banLedger.findBan(identifier)?.userId ||
+          cmdArguments[0];
         const result = await handleUnbanPlayer({ gameId: userId });
         return result.success
           ? { success: true, rawResult: `Unbanned user: ${userId}` }
@@ -1513,9 +2191,230 @@ async function handleExecuteCommand(args: any) {
         return { success: false, rawResult: `Error: ${error.message}` };
       }
 
+    case 'bans':
+      try {
+        const subcommand = (cmdArguments[0] || 'list').toLowerCase();
+
+        if (subcommand === 'import' || subcommand === 'export') {
+          // Paths from the command stay inside data/; only the configured banlist may live elsewhere
+          const fileName = cmdArguments.slice(1).join(' ');
+          const filePath = fileName ? resolveDataPath(fileName) : PALWORLD_BANLIST_PATH ||
+            (subcommand === 'export' ? resolveDataPath('banlist.txt') : '');
+          if (!filePath) {
+            return { success: false, rawResult: 'Usage: bans import <file in data/> (or set PALWORLD_BANLIST_PATH)' };
+          }
+          if (subcommand === 'import') {
+            const added = banLedger.importBanlist(filePath);
+            return { success: true, rawResult: `Imported ${added} new bans from ${filePath}` };
+          }
+          const written = banLedger.exportBanlist(filePath);
+          return { success: true, rawResult: `Exported ${written} bans to ${filePath}` };
+        }
+
+        const bans = banLedger.listBans();
+        if (bans.length === 0) {
+          return { success: true, rawResult: 'No bans recorded' };
+        }
+        const banLines = bans.map(ban =>
+          `  ${ban.name} (${ban.userId}) - ${ban.reason} [by ${ban.issuer}, ${ban.createdAt}${ban.expiresAt ? `, expires ${ban.expiresAt}` : ', permanent'}]`
+        ).join('\n');
+        return { success: true, rawResult: `Bans (${bans.length}):\n${banLines}`, data: bans };
+      } catch (error: any) {
+        return { success: false, rawResult: `Error: ${error.message}` };
+      }
+
+    case 'jobs':
+      try {
+        const subcommand = (cmdArguments[0] || 'list').toLowerCase();
+
+        if (subcommand === 'retry') {
+          const jobId = cmdArguments[1];
+          if (!jobId) {
+            return { success: false, rawResult: 'Usage: jobs retry <jobId>' };
+          }
+          const deadLetter = jobQueue.listDeadLetters().find(job => job.jobId === jobId);
+          if (!deadLetter || !jobQueue.retryDeadLetter(jobId)) {
+            return { success: false, rawResult: `No dead-lettered job ${jobId}` };
+          }
+          if (deadLetter.type === 'item' || deadLetter.type === 'pal') {
+            deliveryLedger.updateDelivery(jobId, 'pending');
+          }
+          return { success: true, rawResult: `Requeued job ${jobId}` };
+        }
+
+        if (subcommand === 'dead') {
+          const deadLetters = jobQueue.listDeadLetters();
+          if (deadLetters.length === 0) {
+            return { success: true, rawResult: 'No dead-lettered jobs' };
+          }
+          const deadLines = deadLetters.map(job =>
+            `  ${job.jobId} [${job.type}] ${JSON.stringify(job.payload)} - ${job.reason} (${new Date(job.deadAt).toISOString()})`
+          ).join('\n');
+          return { success: true, rawResult: `Dead-lettered jobs (${deadLetters.length}):\n${deadLines}`, data: deadLetters };
+        }
+
+        const jobs = jobQueue.listJobs();
+        const deadCount = jobQueue.listDeadLetters().length;
+        if (jobs.length === 0) {
+          return { success: true, rawResult: `No queued jobs (${deadCount} dead-lettered)` };
+        }
+        const now = Date.now();
+        const jobLines = jobs.map(job => {
+          const state = job.deferred
+            ? `waiting for ${playerRegistry.getRegisteredPlayer(job.playerId!)?.name || job.playerId} to reconnect`
+            : job.leasedUntil !== null
+              ? `leased, ${Math.max(0, Math.ceil((job.leasedUntil - now) / 1000))}s left`
+              : 'waiting';
+          return `  ${job.jobId} [${job.type}] ${state}, attempt ${job.attempts}, queued ${formatDuration(now - job.createdAt)} ago`;
+        }).join('\n');
+        return { success: true, rawResult: `Queued jobs (${jobs.length}, ${deadCount} dead-lettered):\n${jobLines}`, data: jobs };
+      } catch (error: any) {
+        return { success: false, rawResult: `Error: ${error.message}` };
+      }
+
+    case 'schedule':
+      try {
+        const subcommand = (cmdArguments[0] || 'list').toLowerCase();
+        const taskId = cmdArguments[1];
+
+        switch (subcommand) {
+          case 'list': {
+            const tasks = scheduler.listTasks();
+            if (tasks.length === 0) {
+              return { success: true, rawResult: 'No scheduled tasks' };
+            }
+            const taskLines = tasks.map(task =>
+              `  ${task.id}${task.paused ? ' [PAUSED]' : ''} (${task.source}): "${task.cron}" -> ${task.command}\n` +
+              `    Last run: ${task.lastRun ? `${task.lastRun} (${task.lastSuccess ? 'ok' : 'failed'})` : 'never'}, Next run: ${task.nextRun || 'N/A'}`
+            ).join('\n');
+            return { success: true, rawResult: `Scheduled Tasks (${tasks.length}):\n${taskLines}`, data: tasks };
+          }
+
+          case 'add': {
+            if (!taskId || cmdArguments.length < 4) {
+              return { success: false, rawResult: 'Usage: schedule add <id> <minute> <hour> <day> <month> <weekday> <command> OR schedule add <id> @hourly <command>' };
+            }
+            const { cron, command } = scheduler.splitCronAndCommand(cmdArguments.slice(2).join(' '));
+            const task = scheduler.addTask(taskId, cron, command);
+            return { success: true, rawResult: `Scheduled task ${task.id}: "${task.cron}" -> ${task.command}` };
+          }
+
+          case 'remove':
+          case 'delete': {
+            if (!taskId) {
+              return { success: false, rawResult: 'Usage: schedule remove <id>' };
+            }
+            const task = scheduler.removeTask(taskId);
+            return { success: true, rawResult: `Removed scheduled task ${task.id}` };
+          }
+
+          case 'pause':
+          case 'resume': {
+            if (!taskId) {
+              return { success: false, rawResult: `Usage: schedule ${subcommand} <id>` };
+            }
+            const task = scheduler.setTaskPaused(taskId, subcommand === 'pause');
+            return { success: true, rawResult: `${task.paused ? 'Paused' : 'Resumed'} scheduled task ${task.id}` };
+          }
+
+          default:
+            return { success: false, rawResult: 'Usage: schedule [list|add|remove|pause|resume] ...' };
+        }
+      } catch (error: any) {
+        return { success: false, rawResult: `Error: ${error.message}` };
+      }
+
+    case 'deliveries':
+      if (cmdArguments.length === 0) {
+        return { success: false, rawResult: 'Usage: deliveries <player_name|steam_id>' };
+      }
+      try {
+        const { player } = await resolvePlayerArgs(cmdArguments, true);
+        if (!player) {
+          return { success: false, rawResult: `Player "${cmdArguments.join(' ')}" not found` };
+        }
+        const deliveries = deliveryLedger.listDeliveries(player.gameId);
+        if (deliveries.length === 0) {
+          return { success: true, rawResult: `No item or Pal deliveries recorded for ${player.name}` };
+        }
+        const deliveryLines = deliveries.slice(0, 25).map(delivery =>
+          `  ${delivery.createdAt} ${delivery.quantity}x ${delivery.itemId}${delivery.type === 'pal' ? ' (Pal)' : ''} - ${delivery.status}${delivery.error ? ` (${delivery.error})` : ''} [${delivery.key}]`
+        ).join('\n');
+        const more = deliveries.length > 25 ? `\n  ... ${deliveries.length - 25} older deliveries` : '';
+        return { success: true, rawResult: `Deliveries for ${player.name} (${deliveries.length}):\n${deliveryLines}${more}`, data: deliveries };
+      } catch (error: any) {
+        return { success: false, rawResult: `Error: ${error.message}` };
+      }
+
+    case 'whois':
+      if (cmdArguments.length === 0) {
+        return { success: false, rawResult: 'Usage: whois <player_name|steam_id>' };
+      }
+      {
+        const identifier = cmdArguments.join(' ');
+        const registered = playerRegistry.findRegisteredPlayer(identifier);
+        if (!registered) {
+          return { success: false, rawResult: `Player "${identifier}" has never been seen by the bridge` };
+        }
+        const online = playerList.getSnapshot().some(p => p.gameId === registered.userId);
+        return {
+          success: true,
+          rawResult: `${registered.name} (${online ? 'online' : 'offline'})
+  ID: ${registered.userId}
+  Palworld ID: ${registered.palworldPlayerId || 'N/A'}
+  Account names: ${registered.accountNames.join(', ')}
+  Last IP: ${registered.lastIp || 'N/A'}
+  Guild: ${guilds.getGuildForPlayer(registered.userId)?.name || 'N/A'}
+  First seen: ${registered.firstSeen}
+  Last seen: ${registered.lastSeen}`,
+          data: registered
+        };
+      }
+
+    case 'deaths': {
+      if (cmdArguments.length === 0) {
+        const leaders = deathStats.listDeathStats().slice(0, 10);
+        if (leaders.length === 0) {
+          return { success: true, rawResult: 'No deaths recorded yet' };
+        }
+        const lines = leaders.map((stats, index) => `  ${index + 1}. ${stats.name}: ${stats.deaths} death${stats.deaths === 1 ? '' : 's'}`);
+        return { success: true, rawResult: `Most deaths:\n${lines.join('\n')}`, data: leaders };
+      }
+
+      const identifier = cmdArguments.join(' ');
+      const registered = playerRegistry.findRegisteredPlayer(identifier);
+      if (!registered) {
+        return { success: false, rawResult: `Player "${identifier}" has never been seen by the bridge` };
+      }
+      const stats = deathStats.getDeathStats(registered.userId);
+      if (!stats) {
+        return { success: true, rawResult: `${registered.name} has no recorded deaths` };
+      }
+
+      const causes = Object.entries(stats.causes)
+        .sort((a, b) => b[1] - a[1])
+        .map(([cause, count]) => `${cause} (${count})`)
+        .join(', ');
+      const recent = stats.recent.map(death => {
+        const how = [death.cause, death.attacker && `by ${death.attacker}`].filter(Boolean).join(' ');
+        const where = death.position
+          ? ` at (${Math.round(death.position.x)}, ${Math.round(death.position.y)}, ${Math.round(death.position.z)})${death.positionSource === 'last-known' ? ' (last known)' : ''}`
+          : '';
+        return `  ${death.timestamp}${how ? ` - ${how}` : ''}${where}`;
+      });
+      return {
+        success: true,
+        rawResult: `${stats.name}: ${stats.deaths} death${stats.deaths === 1 ? '' : 's'}
+  Causes: ${causes}
+Recent deaths:
+${recent.join('\n')}`,
+        data: { gameId: registered.userId, ...stats }
+      };
+    }
+
     case 'teleportplayer':
       if (cmdArguments.length < 2) {
-        return { success: false, rawResult: 'Usage: teleportplayer <source> <target> OR teleportplayer <source> <x> <y> <z>' };
+        return { success: false, rawResult: 'Usage: teleportplayer <source> <target> OR teleportplayer <source> <x> <y> <z> OR teleportplayer <source> @<waypoint>' };
       }
       try {
         const sourcePlayer = cmdArguments[0];
@@ -1534,24 +2433,239 @@ async function handleExecuteCommand(args: any) {
               z
             });
             return result.success
-              ? { success: true, rawResult: result.message || `Teleport queued to (${x}, ${y}, ${z})` }
+              ? { success: true, rawResult: result.message || `Teleported to (${x}, ${y}, ${z})` }
               : { success: false, rawResult: result.error };
           }
         }
 
-        // Player-to-player teleport
+        // Player-to-player (or "@waypoint") teleport
         const targetPlayer = cmdArguments.slice(1).join(' '); // Handle spaces in player names
         const result = await handleTeleportPlayer({
           sourcePlayer,
           targetPlayer
         });
         return result.success
-          ? { success: true, rawResult: result.message || 'Teleport queued' }
+          ? { success: true, rawResult: result.message || 'Teleported' }
           : { success: false, rawResult: result.error };
       } catch (error: any) {
         return { success: false, rawResult: `Error: ${error.message}` };
       }
 
+    case 'givepal':
+    case 'spawnpal':
+      if (cmdArguments.length < 2) {
+        return { success: false, rawResult: `Usage: ${cmd} <player> <pal> [level] [count]` };
+      }
+      try {
+        const { player, rest } = await resolvePlayerArgs(cmdArguments);
+        if (!player || rest.length === 0) {
+          return { success: false, rawResult: `Player not found online (usage: ${cmd} <player> <pal> [level] [count])` };
+        }
+        const [palQuery, level, count] = rest;
+        const result: any = await handleGivePal({ gameId: player.gameId, palId: palQuery, level, count }, cmd === 'givepal' ? 'give' : 'spawn');
+        if (!result.success) {
+          return { success: false, rawResult: result.error };
+        }
+        if (result.pending) {
+          return { success: true, rawResult: result.message, data: result };
+        }
+        return { success: true, rawResult: `${cmd === 'givepal' ? 'Gave' : 'Spawned'} ${result.count}x ${result.palId} (level ${result.level}) for ${player.name}`, data: result };
+      } catch (error: any) {
+        return { success: false, rawResult: `Error: ${error.message}` };
+      }
+
+    case 'chatlog':
+      try {
+        // Split "--flag value" options from the player name
+        const positional: string[] = [];
+        const flags: Record<string, string[]> = {};
+        let currentFlag: string | null = null;
+        for (const argument of cmdArguments) {
+          if (argument.startsWith('--')) {
+            const flag: string = argument.substring(2).toLowerCase();
+            flags[flag] = [];
+            currentFlag = flag;
+          } else if (currentFlag) {
+            flags[currentFlag].push(argument);
+          } else {
+            positional.push(argument);
+          }
+        }
+
+        let since: number | undefined;
+        if (flags.since) {
+          const window = parseDuration(flags.since.join(''));
+          if (!window) {
+            return { success: false, rawResult: `Invalid duration "${flags.since.join(' ')}" (use e.g. 30m, 2h, 7d)` };
+          }
+          since = Date.now() - window;
+        }
+
+        let gameId: string | undefined;
+        let name: string | undefined;
+        if (positional.length > 0) {
+          const identifier = positional.join(' ');
+          const registered = playerRegistry.findRegisteredPlayer(identifier);
+          if (registered) {
+            gameId = registered.userId;
+          } else {
+            name = identifier;
+          }
+        }
+
+        const grep = flags.grep ? flags.grep.join(' ') : undefined;
+        const messages = chatHistory.queryChat({ gameId, name, since, grep });
+
+        if (flags.export) {
+          const format = (flags.export[0] || 'csv').toLowerCase();
+          if (format !== 'csv' && format !== 'json') {
+            return { success: false, rawResult: 'Export format must be csv or json' };
+          }
+          const filePath = resolveDataPath(flags.export.slice(1).join(' ') ||
+            `chatlog-${new Date().toISOString().replace(/[:.]/g, '-')}.${format}`);
+          chatHistory.exportChat(messages, format, filePath);
+          return { success: true, rawResult: `Exported ${messages.length} chat messages to ${filePath}` };
+        }
+
+        if (messages.length === 0) {
+          return { success: true, rawResult: 'No matching chat messages' };
+        }
+        const shown = messages.slice(-50);
+        const chatLines = shown.map(entry =>
+          `  [${entry.timestamp}] [${chatRouting.getChatRoute(entry.category).label}] ${entry.name}: ${entry.message}${entry.relayed ? '' : ' (not relayed)'}`
+        ).join('\n');
+        const earlier = messages.length > shown.length ? `\n  ... ${messages.length - shown.length} earlier messages (use --export to get all)` : '';
+        return { success: true, rawResult: `Chat messages (${messages.length}):\n${chatLines}${earlier}`, data: shown };
+      } catch (error: any) {
+        return { success: false, rawResult: `Error: ${error.message}` };
+      }
+
+    case 'moderation': {
+      if (!moderation.isModerationEnabled()) {
+        return { success: true, rawResult: 'Chat moderation is disabled (set CHAT_MODERATION=true)' };
+      }
+      const moderated = moderation.listModeratedPlayers();
+      if (moderated.length === 0) {
+        return { success: true, rawResult: 'No players with chat strikes or mutes' };
+      }
+      const now = Date.now();
+      const moderatedLines = moderated.map(entry =>
+        `  ${entry.name} (${entry.gameId}) - ${entry.strikes} strike${entry.strikes === 1 ? '' : 's'}${entry.mutedUntil ? `, muted for ${formatDuration(entry.mutedUntil - now)}` : ''}`
+      ).join('\n');
+      return { success: true, rawResult: `Chat moderation (${moderated.length}):\n${moderatedLines}`, data: moderated };
+    }
+
+    case 'unmute': {
+      if (cmdArguments.length === 0) {
+        return { success: false, rawResult: 'Usage: unmute <player_name|steam_id>' };
+      }
+      const identifier = cmdArguments.join(' ');
+      const registered = playerRegistry.findRegisteredPlayer(identifier);
+      const gameId = registered ? registered.userId : identifier;
+      if (!moderation.pardonPlayer(gameId)) {
+        return { success: false, rawResult: `${registered?.name || identifier} has no chat strikes or mute` };
+      }
+      return { success: true, rawResult: `Cleared chat strikes and mute for ${registered?.name || identifier}` };
+    }
+
+    case 'guilds': {
+      const guildList = guilds.listGuilds();
+      const snapshotTime = guilds.getSnapshotTime();
+      if (!snapshotTime) {
+        return { success: true, rawResult: 'No guild data received from the mod yet (guild tracking is disabled in TakaroChat main.lua)' };
+      }
+      if (guildList.length === 0) {
+        return { success: true, rawResult: `No guilds (snapshot from ${snapshotTime})` };
+      }
+      const guildLines = guildList
+        .sort((a, b) => b.members.length - a.members.length)
+        .map(guild => `  ${guild.name} (${guild.members.length} member${guild.members.length === 1 ? '' : 's'}, ID: ${guild.guildId})`)
+        .join('\n');
+      return { success: true, rawResult: `Guilds (${guildList.length}, snapshot from ${snapshotTime}):\n${guildLines}`, data: guildList };
+    }
+
+    case 'guild': {
+      if (cmdArguments.length === 0) {
+        return { success: false, rawResult: 'Usage: guild <guild_name|player_name>' };
+      }
+      const identifier = cmdArguments.join(' ');
+      const registered = playerRegistry.findRegisteredPlayer(identifier);
+      const guild = guilds.findGuild(identifier) || (registered ? guilds.getGuildForPlayer(registered.userId) : undefined);
+      if (!guild) {
+        return { success: false, rawResult: `No guild or guild member named "${identifier}"` };
+      }
+      const online = new Set(playerList.getSnapshot().map(p => p.gameId));
+      const memberLines = guild.members.map(member => {
+        const admin = member.playerUid === guild.adminUid ? ' [admin]' : '';
+        const status = member.gameId ? (online.has(member.gameId) ? 'online' : 'offline') : 'unknown player';
+        return `  ${member.name}${admin} (${member.gameId || member.playerUid}, ${status})`;
+      }).join('\n');
+      return { success: true, rawResult: `${guild.name} (ID: ${guild.guildId}, ${guild.members.length} members):\n${memberLines}`, data: guild };
+    }
+
+    case 'waypoint':
+    case 'waypoints':
+      try {
+        const subcommand = (cmdArguments[0] || 'list').toLowerCase();
+
+        if (subcommand === 'list') {
+          const saved = waypoints.listWaypoints();
+          if (saved.length === 0) {
+            return { success: true, rawResult: 'No waypoints saved' };
+          }
+          const waypointLines = saved.map(waypoint =>
+            `  ${waypoint.name} (${waypoint.x}, ${waypoint.y}, ${waypoint.z}) [by ${waypoint.createdBy}, ${waypoint.createdAt}]`
+          ).join('\n');
+          return { success: true, rawResult: `Waypoints (${saved.length}):\n${waypointLines}`, data: saved };
+        }
+
+        if (subcommand === 'remove') {
+          const name = cmdArguments[1];
+          if (!name) {
+            return { success: false, rawResult: 'Usage: waypoint remove <name>' };
+          }
+          const removed = waypoints.removeWaypoint(name);
+          return removed
+            ? { success: true, rawResult: `Removed waypoint ${removed.name}` }
+            : { success: false, rawResult: `No waypoint named "${name}"` };
+        }
+
+        if (subcommand === 'add') {
+          const name = cmdArguments[1];
+          if (!name || cmdArguments.length < 3) {
+            return { success: false, rawResult: 'Usage: waypoint add <name> <player> OR waypoint add <name> <x> <y> <z>' };
+          }
+          if (!waypoints.isValidWaypointName(name)) {
+            return { success: false, rawResult: 'Waypoint names may only use letters, digits, "-" and "_" (max 32 characters)' };
+          }
+
+          // Coordinates given directly
+          if (cmdArguments.length === 5) {
+            const [x, y, z] = cmdArguments.slice(2).map((value: string) => parseFloat(value));
+            if (!isNaN(x) && !isNaN(y) && !isNaN(z)) {
+              const waypoint = waypoints.addWaypoint({ name, x, y, z, createdBy: 'console' });
+              return { success: true, rawResult: `Saved waypoint ${waypoint.name} at (${x}, ${y}, ${z})`, data: waypoint };
+            }
+          }
+
+          // Capture an online player's current position
+          const { player } = await resolvePlayerArgs(cmdArguments.slice(2));
+          if (!player) {
+            return { success: false, rawResult: `Player "${cmdArguments.slice(2).join(' ')}" not found online` };
+          }
+          const location = await handleGetPlayerLocation({ gameId: player.gameId });
+          if (location.x === 0 && location.y === 0 && location.z === 0) {
+            return { success: false, rawResult: `Unable to get location for ${player.name}` };
+          }
+          const waypoint = waypoints.addWaypoint({ name, x: location.x, y: location.y, z: location.z, createdBy: player.name });
+          return { success: true, rawResult: `Saved waypoint ${waypoint.name} at ${player.name}'s position (${location.x}, ${location.y}, ${location.z})`, data: waypoint };
+        }
+
+        return { success: false, rawResult: 'Usage: waypoint add <name> <player|x y z> | waypoint remove <name> | waypoint list' };
+      } catch (error: any) {
+        return { success: false, rawResult: `Error: ${error.message}` };
+      }
+
     case 'location':
     case 'getlocation':
       if (cmdArguments.length === 0) {
@@ -1588,25 +2702,7 @@ async function handleKickPlayer(args: any) {
   const userId = kickArgs.gameId || kickArgs.userId;
 
   try {
-    const authString = Buffer.from(`${PALWORLD_USERNAME}:${PALWORLD_PASSWORD}`).toString('base64');
-
-    const data = JSON.stringify({
-      userid: userId,
-      message: 'You have been kicked from the server'
-    });
-
-    const config = {
-      method: 'post',
-      maxBodyLength: Infinity,
-      url: `${PALWORLD_BASE_URL}/v1/api/kick`,
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Basic ${authString}`
-      },
-      data: data
-    };
-
-    const response = await axios(config);
+    await palworldApi.kickPlayer(userId, 'You have been kicked from the server');
     logger.info(`Player ${userId} kicked successfully`);
     return { success: true };
   } catch (error: any) {
@@ -1620,30 +2716,38 @@ async function handleKickPlayer(args: any) {
  */
 async function handleBanPlayer(args: any) {
   const banArgs = typeof args === 'string' ? JSON.parse(args) : args;
-  const userId = banArgs.gameId || banArgs.userId;
-
-  try {
-    const authString = Buffer.from(`${PALWORLD_USERNAME}:${PALWORLD_PASSWORD}`).toString('base64');
+  const userId = banArgs.gameId || banArgs.userId || banArgs.player?.gameId;
+  const reason = banArgs.reason || '';
+  const issuer = banArgs.issuer || 'Takaro';
 
-    const data = JSON.stringify({
-      userid: userId,
-      message: 'You are banned.'
-    });
+  if (!userId) {
+    return { success: false, error: 'No player ID given' };
+  }
 
-    const config = {
-      method: 'post',
-      maxBodyLength: Infinity,
-      url: `${PALWORLD_BASE_URL}/v1/api/ban`,
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Basic ${authString}`
-      },
-      data: data
-    };
+  // Takaro sends expiresAt as an ISO date; durations ("3d") are accepted too
+  let expiresAt: string | null = null;
+  if (banArgs.expiresAt) {
+    const expiry = parseExpiry(String(banArgs.expiresAt));
+    if (expiry === null || expiry <= Date.now()) {
+      return { success: false, error: `Invalid expiresAt "${banArgs.expiresAt}" (use a future ISO date or a duration like 3d)` };
+    }
+    expiresAt = new Date(expiry).toISOString();
+  }
 
-    const response = await axios(config);
+  try {
+    const banMessage = reason ? `You are banned: ${reason}` : 'You are banned.';
+    await palworldApi.banPlayer(userId, expiresAt ? `${banMessage} (until ${expiresAt})` : banMessage);
     logger.info(`Player ${userId} banned successfully`);
-    return { success: true };
+
+    const name = playerCache.get(userId)?.name || playerRegistry.getRegisteredPlayer(userId)?.name || userId;
+    const ban = banLedger.addBan({
+      userId,
+      name,
+      reason: reason || 'No reason given',
+      issuer,
+      expiresAt
+    });
+    return { success: true, ban };
   } catch (error: any) {
     logger.error(`Failed to ban player ${userId}: ${error.message}`);
     return { success: false, error: error.message };
@@ -1655,28 +2759,16 @@ async function handleBanPlayer(args: any) {
  */
 async function handleUnbanPlayer(args: any) {
   const unbanArgs = typeof args === 'string' ? JSON.parse(args) : args;
-  const userId = unbanArgs.gameId || unbanArgs.userId;
-
-  try {
-    const authString = Buffer.from(`${PALWORLD_USERNAME}:${PALWORLD_PASSWORD}`).toString('base64');
+  const userId = unbanArgs.gameId || unbanArgs.userId || unbanArgs.player?.gameId;
 
-    const data = JSON.stringify({
-      userid: userId
-    });
-
-    const config = {
-      method: 'post',
-      maxBodyLength: Infinity,
-      url: `${PALWORLD_BASE_URL}/v1/api/unban`,
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Basic ${authString}`
-      },
-      data: data
-    };
+  if (!userId) {
+    return { success: false, error: 'No player ID given' };
+  }
 
-    const response = await axios(config);
+  try {
+    await palworldApi.unbanPlayer(userId);
     logger.info(`Player ${userId} unbanned successfully`);
+    banLedger.removeBan(userId);
     return { success: true };
   } catch (error: any) {
     logger.error(`Failed to unban player ${userId}: ${error.message}`);
@@ -1689,18 +2781,7 @@ async function handleUnbanPlayer(args: any) {
  */
 async function handleStopServer() {
   try {
-    const authString = Buffer.from(`${PALWORLD_USERNAME}:${PALWORLD_PASSWORD}`).toString('base64');
-
-    const config = {
-      method: 'post',
-      maxBodyLength: Infinity,
-      url: `${PALWORLD_BASE_URL}/v1/api/stop`,
-      headers: {
-        'Authorization': `Basic ${authString}`
-      }
-    };
-
-    const response = await axios(config);
+    await palworldApi.stopServer();
     logger.info('Server stop initiated');
     return { success: true, rawResult: 'Server stopped' };
   } catch (error: any) {
@@ -1775,27 +2856,168 @@ function scheduleReconnect() {
   }, delayMs);
 }
 
+// Keep the bridge's player cache in sync with every player list refresh
+// (including accountName for Lua communication and palworldPlayerId for matching)
+playerList.onPlayersRefreshed(players => {
+  for (const player of players) {
+    playerCache.set(player.gameId, { gameId: player.gameId, name: player.name, accountName: player.accountName, steamId: player.steamId, palworldPlayerId: player.palworldPlayerId });
+  }
+  playerRegistry.recordPlayers(players);
+});
+
+// Load the persistent player registry (survives bridge and server restarts)
+playerRegistry.initPlayerRegistry();
+banLedger.initBanLedger();
+deliveryLedger.initDeliveryLedger({ report: sendLogEvent });
+waypoints.initWaypoints();
+guilds.initGuilds();
+chatHistory.initChatHistory({ retention: CHAT_HISTORY_RETENTION, maxEntries: CHAT_HISTORY_MAX_ENTRIES });
+deathStats.initDeathStats();
+
 // Initialize Palworld API
-initPalworldApi();
+palworldApi.initPalworldApi({
+  baseUrl: PALWORLD_BASE_URL,
+  username: PALWORLD_USERNAME,
+  password: PALWORLD_PASSWORD,
+  timeout: PALWORLD_API_TIMEOUT,
+  maxRetries: PALWORLD_API_RETRIES,
+  retryBaseDelay: PALWORLD_API_RETRY_DELAY,
+  breakerThreshold: PALWORLD_BREAKER_THRESHOLD,
+  breakerResetTimeout: PALWORLD_BREAKER_RESET
+});
+playerList.initPlayerList(PLAYER_LIST_TTL);
+
+// Lift temporary bans once they expire (also catches bans that expired while the bridge was down)
+// Started after the API client, since the first check runs immediately
+banLedger.startBanExpiryScheduler(async ban => {
+  const result = await handleUnbanPlayer({ gameId: ban.userId });
+  return result.success;
+});
 
 // Start server monitoring (like Astroneer's RCON connection state)
+liveness.initLiveness({
+  strategy: ['tasklist', 'process', 'rest', 'pidfile', 'docker'].includes(SERVER_LIVENESS) ? SERVER_LIVENESS : 'auto',
+  processName: SERVER_PROCESS_NAME,
+  pidFile: SERVER_PID_FILE,
+  dockerContainer: DOCKER_CONTAINER,
+  dockerSocket: DOCKER_SOCKET,
+  restTimeout: 3000,
+  debounce: Math.max(1, LIVENESS_DEBOUNCE)
+});
 startServerMonitoring();
 
+// Return JSON for body parser errors (oversized or malformed bodies) instead of Express' HTML page
+app.use((error: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (res.headersSent) {
+    return next(error);
+  }
+  const status = error.status || error.statusCode || 500;
+  logger.warn(`[HTTP] ${req.method} ${req.path} from ${req.ip} failed: ${error.message}`);
+  res.status(status).json({ success: false, error: error.type === 'entity.too.large' ? 'Request body too large' : error.message });
+});
+
 // Start HTTP server for chat endpoint
-app.listen(HTTP_PORT, () => {
-  logger.info(`HTTP server listening on port ${HTTP_PORT} for chat events`);
+if (!BRIDGE_SECRET) {
+  logger.warn('BRIDGE_SECRET is not set - mod endpoints accept unauthenticated requests');
+}
+jobQueue.initJobQueue({ leaseTime: Math.max(1000, MOD_JOB_LEASE), maxAttempts: Math.max(1, MOD_JOB_MAX_ATTEMPTS) });
+pushChannel.initPushChannel(
+  { maxWait: Math.max(0, MOD_JOBS_MAX_WAIT), secret: BRIDGE_SECRET },
+  () => jobQueue.leaseJobs().map(jobQueue.toWire)
+);
+jobQueue.onJobsAvailable(() => pushChannel.notifyJobsQueued());
+guilds.onGuildMembershipChanged(({ change, guild, member }) => {
+  sendLogEvent(`${member.name} ${change === 'joined' ? 'joined' : 'left'} guild ${guild.name}`);
 });
+jobQueue.onJobDeadLettered(job => {
+  if (job.type === 'item' || job.type === 'pal') {
+    deliveryLedger.reportUndelivered(job.jobId, job.reason);
+  }
+});
+const httpServer = app.listen(HTTP_PORT, HTTP_BIND, () => {
+  logger.info(`HTTP server listening on ${HTTP_BIND}:${HTTP_PORT} for chat events`);
+});
+if (MOD_WEBSOCKET) {
+  pushChannel.attachWebSocket(httpServer);
+}
 
 // Connect to Takaro
 connectToTakaro();
 
+// Chat moderation (CHAT_MODERATION=true)
+moderation.initModeration(
+  {
+    enabled: CHAT_MODERATION,
+    words: CHAT_FILTER_WORDS,
+    patterns: Object.keys(process.env)
+      .filter(key => key.startsWith('CHAT_FILTER_REGEX_'))
+      .map(key => process.env[key] as string),
+    rateLimit: CHAT_RATE_LIMIT,
+    rateWindow: CHAT_RATE_WINDOW,
+    repeatLimit: CHAT_REPEAT_LIMIT,
+    repeatWindow: CHAT_REPEAT_WINDOW,
+    sanctions: CHAT_SANCTIONS.length > 0 ? CHAT_SANCTIONS : moderation.SANCTIONS,
+    muteDuration: CHAT_MUTE_DURATION,
+    banDuration: CHAT_BAN_DURATION,
+    strikeDecay: CHAT_STRIKE_DECAY,
+    strikeCooldown: CHAT_STRIKE_COOLDOWN
+  },
+  {
+    announce: async message => { await announcements.announce(message); },
+    kick: async gameId => (await handleKickPlayer({ gameId })).success,
+    ban: async (gameId, reason, expiresAt) => (await handleBanPlayer({ gameId, reason, issuer: 'Chat moderation', expiresAt })).success,
+    report: sendLogEvent
+  }
+);
+
+// Managed restart/shutdown countdowns
+restartManager.initRestartManager(
+  {
+    warnings: RESTART_WARNINGS,
+    shutdownDelay: 1,
+    returnTimeout: RESTART_RETURN_TIMEOUT
+  },
+  {
+    announce: async message => { await announcements.announce(message); },
+    save: () => palworldApi.saveWorld(),
+    shutdown: (waittime, message) => palworldApi.shutdownServer(waittime, message),
+    isServerRunning: () => isServerRunning,
+    report: sendLogEvent
+  }
+);
+
+// Announcement formatting (ANNOUNCE_TEMPLATE_<NAME> config entries are the named templates)
+announcements.initAnnouncements(
+  {
+    maxLength: ANNOUNCE_MAX_LENGTH,
+    templates: Object.fromEntries(Object.keys(process.env)
+      .filter(key => key.startsWith('ANNOUNCE_TEMPLATE_'))
+      .map(key => [key.slice('ANNOUNCE_TEMPLATE_'.length).toLowerCase(), process.env[key] as string]))
+  },
+  {
+    announce: message => palworldApi.announce(message),
+    getServerInfo: () => handleGetServerInfo(),
+    getPlayers: () => playerList.getPlayers()
+  }
+);
+
+// Per-category chat routing (CHAT_ROUTE_* / CHAT_FORMAT_* config entries)
+chatRouting.initChatRouting(process.env);
+
+// Run scheduled console commands (SCHEDULE_* config entries and "schedule add" tasks)
+scheduler.initScheduler(command => handleExecuteCommand({ command }), process.env);
+
 // Poll for player changes every 10 seconds (Palworld shows join/leave in console, not accessible via UE4SS)
 let pollCount = 0;
 setInterval(async () => {
   pollCount++;
   if (isConnectedToTakaro) {
     logger.debug(`[POLL #${pollCount}] Checking for player changes...`);
-    await handleGetPlayers(true); // Pass true to enable change detection
+    try {
+      await handleGetPlayers(true); // Pass true to enable change detection
+    } catch (error: any) {
+      logger.debug(`[POLL #${pollCount}] Player poll failed: ${error.message}`);
+    }
   } else {
     logger.debug(`[POLL #${pollCount}] Skipping - not connected to Takaro`);
   }
@@ -1804,6 +3026,7 @@ setInterval(async () => {
 // Handle process termination
 process.on('SIGINT', () => {
   logger.info('Shutting down...');
+  playerRegistry.flushPlayerRegistry();
   if (takaroWs) {
     takaroWs.close();
   }
@@ -1812,6 +3035,7 @@ process.on('SIGINT', () => {
 
 process.on('SIGTERM', () => {
   logger.info('Shutting down...');
+  playerRegistry.flushPlayerRegistry();
   if (takaroWs) {
     takaroWs.close();
   }
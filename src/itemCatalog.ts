@@ -0,0 +1,50 @@
+import catalogFile from './data/items.json';
+import { searchCatalog } from './catalogSearch';
+
+/**
+ * Bundled Palworld item catalog (src/data/items.json)
+ *
+ * The Palworld REST API has no item list, so the bridge ships its own: internal
+ * ID, display name, category, max stack and rarity. Bump "version" in the JSON
+ * whenever items are added or changed so Takaro's item sync picks them up.
+ */
+
+export interface CatalogItem {
+  id: string;        // Internal item ID used by the game (and the mod's give)
+  name: string;      // Display name
+  category: string;
+  maxStack: number;
+  rarity: string;
+}
+
+export interface ItemMatch {
+  item: CatalogItem | null;
+  suggestions: CatalogItem[];  // Closest items when the query was ambiguous or unknown
+}
+
+const items: CatalogItem[] = catalogFile.items;
+
+export const CATALOG_VERSION: number = catalogFile.version;
+
+export function listCatalogItems(): CatalogItem[] {
+  return [...items];
+}
+
+/**
+ * Items in Takaro's listItems format
+ */
+export function toTakaroItems(): Array<{ code: string; name: string; description: string }> {
+  return items.map(item => ({
+    code: item.id,
+    name: item.name,
+    description: `${item.rarity} ${item.category.toLowerCase()}, stacks to ${item.maxStack}`
+  }));
+}
+
+/**
+ * Find an item by internal ID or display name; near misses only come back as suggestions (see catalogSearch)
+ */
+export function resolveItem(query: string): ItemMatch {
+  const match = searchCatalog(items, query);
+  return { item: match.entry, suggestions: match.suggestions };
+}
@@ -0,0 +1,360 @@
+import { logger } from './logger';
+import { loadJson, saveJson } from './jsonStore';
+
+/**
+ * Leased job queue for work handed to the TakaroChat mod (teleports, location lookups, item gives, Pal spawns, whispers)
+ *
+ * Fetching a job leases it instead of removing it. The mod acknowledges a job by
+ * posting its result to the matching *-response endpoint (other clients can use
+ * POST /jobs/ack); a job whose lease runs out goes back on the queue. Jobs that
+ * were delivered maxAttempts times without an ack are moved to a dead-letter list,
+ * viewable with the "jobs" console command.
+ *
+ * Item, Pal and teleport jobs (and the dead letters) are saved to data/jobs.json so
+ * they survive a bridge restart or server crash. Jobs that belong to a player are held
+ * back (deferred) while that player is offline and released when they reconnect.
+ * Jobs with a deadline (teleports) are dropped once it passes, also on reload, so
+ * they never run after their handler has reported them as failed.
+ */
+
+export type JobType = 'teleport' | 'location' | 'item' | 'pal' | 'whisper';
+
+export interface Job {
+  jobId: string;
+  type: JobType;
+  payload: Record<string, unknown>;
+  attempts: number;            // Times the job was handed out
+  createdAt: number;
+  leasedUntil: number | null;  // null = waiting to be fetched
+  playerId?: string;           // gameId of the player the job is for
+  deferred?: boolean;          // Held back until the player is online again
+  expiresAt?: number;          // Dropped (not dead-lettered) after this time
+}
+
+export interface EnqueueOptions {
+  jobId?: string;
+  playerId?: string;
+  expiresAt?: number;
+}
+
+export interface DeadLetter extends Job {
+  deadAt: number;
+  reason: string;
+}
+
+export interface JobQueueOptions {
+  leaseTime: number;    // ms a fetched job stays reserved for the client that fetched it
+  maxAttempts: number;  // Deliveries without an ack before the job is dead-lettered
+}
+
+interface JobQueueFile {
+  version: number;
+  jobs: Job[];
+  deadLetters: DeadLetter[];
+}
+
+const JOBS_FILE = 'jobs.json';
+// Location lookups and whispers are only useful to the handler waiting for them
+const PERSISTED_TYPES = new Set<JobType>(['item', 'pal', 'teleport']);
+const MAX_DEAD_LETTERS = 100;
+const LEASE_CHECK_INTERVAL = 1000;
+
+let options: JobQueueOptions = { leaseTime: 15000, maxAttempts: 5 };
+const jobs: Job[] = [];
+const deadLetters: DeadLetter[] = [];
+const availableListeners: Array<() => void> = [];
+const deadLetterListeners: Array<(job: DeadLetter) => void> = [];
+
+/**
+ * Configure leases, reload saved jobs and start returning expired leases to the queue
+ * Reloaded player jobs stay deferred until the player is seen online.
+ */
+export function initJobQueue(queueOptions: JobQueueOptions) {
+  options = queueOptions;
+
+  const saved = loadJson<JobQueueFile>(JOBS_FILE, { version: 1, jobs: [], deadLetters: [] });
+  const now = Date.now();
+  const live = saved.jobs.filter(job => PERSISTED_TYPES.has(job.type) && !isExpired(job, now));
+  for (const job of live) {
+    jobs.push({ ...job, leasedUntil: null, deferred: job.playerId !== undefined });
+  }
+  deadLetters.push(...saved.deadLetters);
+  if (live.length < saved.jobs.length) {
+    logger.info(`[JOBS] Dropped ${saved.jobs.length - live.length} expired saved job(s)`);
+    saveJobs();
+  }
+
+  setInterval(expireLeases, LEASE_CHECK_INTERVAL).unref(); // Doesn't keep the process alive on its own
+  logger.info(`[JOBS] Job queue initialized (${jobs.length} pending jobs restored, lease: ${options.leaseTime / 1000}s, max attempts: ${options.maxAttempts})`);
+}
+
+function saveJobs() {
+  saveJson(JOBS_FILE, {
+    version: 1,
+    jobs: jobs.filter(job => PERSISTED_TYPES.has(job.type)).map(job => ({ ...job, leasedUntil: null, deferred: undefined })),
+    deadLetters
+  });
+}
+
+function isExpired(job: Job, now: number): boolean {
+  return job.expiresAt !== undefined && job.expiresAt <= now;
+}
+
+/**
+ * Save only if a persisted job type was touched
+ */
+function saveIfPersisted(type: JobType) {
+  if (PERSISTED_TYPES.has(type)) {
+    saveJobs();
+  }
+}
+
+/**
+ * Register a listener called whenever jobs become available (queued or lease expired)
+ */
+export function onJobsAvailable(listener: () => void) {
+  availableListeners.push(listener);
+}
+
+/**
+ * Register a listener called when a job is moved to the dead-letter list
+ */
+export function onJobDeadLettered(listener: (job: DeadLetter) => void) {
+  deadLetterListeners.push(listener);
+}
+
+function notifyAvailable() {
+  for (const listener of availableListeners) {
+    try {
+      listener();
+    } catch (error: any) {
+      logger.error(`[JOBS] Job listener failed: ${error.message}`);
+    }
+  }
+}
+
+function moveToDeadLetters(job: Job, reason: string) {
+  jobs.splice(jobs.indexOf(job), 1);
+  const deadLetter: DeadLetter = { ...job, leasedUntil: null, deferred: undefined, deadAt: Date.now(), reason };
+  deadLetters.push(deadLetter);
+  if (deadLetters.length > MAX_DEAD_LETTERS) {
+    deadLetters.shift();
+  }
+  saveJobs();
+  logger.warn(`[JOBS] ${job.type} job ${job.jobId} moved to dead letters: ${reason}`);
+
+  for (const listener of deadLetterListeners) {
+    try {
+      listener(deadLetter);
+    } catch (error: any) {
+      logger.error(`[JOBS] Dead-letter listener failed: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Drop jobs past their deadline and return jobs with an expired lease to the queue (or dead-letter them)
+ */
+function expireLeases() {
+  const now = Date.now();
+  let requeued = false;
+
+  for (const job of [...jobs]) {
+    if (isExpired(job, now)) {
+      jobs.splice(jobs.indexOf(job), 1);
+      saveIfPersisted(job.type);
+      logger.debug(`[JOBS] ${job.type} job ${job.jobId} expired before it was acknowledged, dropped`);
+      continue;
+    }
+    if (job.leasedUntil === null || job.leasedUntil > now) {
+      continue;
+    }
+    if (job.attempts >= options.maxAttempts) {
+      moveToDeadLetters(job, `not acknowledged after ${job.attempts} attempts`);
+      continue;
+    }
+    job.leasedUntil = null;
+    requeued = true;
+    logger.debug(`[JOBS] Lease expired for ${job.type} job ${job.jobId} (attempt ${job.attempts}/${options.maxAttempts}), requeued`);
+  }
+
+  if (requeued) {
+    notifyAvailable();
+  }
+}
+
+/**
+ * Queue a job; the job ID defaults to "<type>_<timestamp>_<random>"
+ */
+export function enqueueJob(type: JobType, payload: Record<string, unknown>, enqueueOptions: EnqueueOptions = {}): Job {
+  const job: Job = {
+    jobId: enqueueOptions.jobId || `${type}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    type,
+    payload,
+    attempts: 0,
+    createdAt: Date.now(),
+    leasedUntil: null,
+    playerId: enqueueOptions.playerId,
+    expiresAt: enqueueOptions.expiresAt
+  };
+  jobs.push(job);
+  saveIfPersisted(type);
+  notifyAvailable();
+  return job;
+}
+
+/**
+ * Lease every available job (optionally of one type)
+ */
+export function leaseJobs(type?: JobType): Job[] {
+  const now = Date.now();
+  const leased: Job[] = [];
+
+  for (const job of jobs) {
+    if ((type && job.type !== type) || job.leasedUntil !== null || job.deferred || isExpired(job, now)) {
+      continue;
+    }
+    job.attempts++;
+    job.leasedUntil = now + options.leaseTime;
+    leased.push(job);
+  }
+
+  if (leased.some(job => PERSISTED_TYPES.has(job.type))) {
+    saveJobs(); // Keep attempt counts across restarts
+  }
+  return leased;
+}
+
+/**
+ * Wire format sent to the mod: the payload with type first and jobId last
+ * (the Lua parser relies on the payload's field order)
+ */
+export function toWire(job: Job): { type: JobType } & Record<string, unknown> {
+  return { type: job.type, ...job.payload, jobId: job.jobId };
+}
+
+/**
+ * Mark a job as done; returns false for unknown (already acked, cancelled or dead) jobs
+ */
+export function ackJob(jobId: string): boolean {
+  const index = jobs.findIndex(job => job.jobId === jobId);
+  if (index === -1) {
+    return false;
+  }
+  const [job] = jobs.splice(index, 1);
+  saveIfPersisted(job.type);
+  return true;
+}
+
+/**
+ * Drop a job that is no longer needed (e.g. its handler gave up waiting)
+ */
+export function cancelJob(jobId: string): boolean {
+  return ackJob(jobId);
+}
+
+/**
+ * Drop all jobs of one type; returns how many were removed
+ */
+export function clearJobs(type: JobType): number {
+  let removed = 0;
+  for (let i = jobs.length - 1; i >= 0; i--) {
+    if (jobs[i].type === type) {
+      jobs.splice(i, 1);
+      removed++;
+    }
+  }
+  if (removed > 0) {
+    saveIfPersisted(type);
+  }
+  return removed;
+}
+
+/**
+ * Hold back a job until its player reconnects (e.g. the mod reported them offline)
+ * Jobs without a player are left alone; returns false for those and unknown jobs.
+ */
+export function deferJob(jobId: string): boolean {
+  const job = jobs.find(j => j.jobId === jobId);
+  if (!job || job.playerId === undefined) {
+    return false;
+  }
+  job.deferred = true;
+  job.leasedUntil = null;
+  job.attempts = Math.max(0, job.attempts - 1); // The delivery didn't count, the player wasn't there
+  saveIfPersisted(job.type);
+  logger.info(`[JOBS] ${job.type} job ${jobId} deferred until ${job.playerId} is online`);
+  return true;
+}
+
+/**
+ * A player went offline: hold back their jobs (all players' jobs if no ID is given)
+ */
+export function playerDisconnected(playerId?: string) {
+  let deferred = 0;
+  for (const job of jobs) {
+    if (job.playerId !== undefined && !job.deferred && (playerId === undefined || job.playerId === playerId)) {
+      job.deferred = true;
+      job.leasedUntil = null;
+      deferred++;
+    }
+  }
+  if (deferred > 0) {
+    saveJobs();
+    logger.info(`[JOBS] Deferred ${deferred} job(s) for ${playerId || 'all players'} until they reconnect`);
+  }
+}
+
+/**
+ * A player is online: release their deferred jobs
+ */
+export function playerConnected(playerId: string) {
+  let released = 0;
+  for (const job of jobs) {
+    if (job.deferred && job.playerId === playerId) {
+      job.deferred = false;
+      released++;
+    }
+  }
+  if (released > 0) {
+    logger.info(`[JOBS] Released ${released} deferred job(s) for ${playerId}`);
+    notifyAvailable();
+  }
+}
+
+export function getJob(jobId: string): Job | undefined {
+  return jobs.find(job => job.jobId === jobId);
+}
+
+export function listJobs(): Job[] {
+  return [...jobs];
+}
+
+export function listDeadLetters(): DeadLetter[] {
+  return [...deadLetters];
+}
+
+/**
+ * Put a dead-lettered job back on the queue with a fresh attempt count
+ */
+export function retryDeadLetter(jobId: string): boolean {
+  const index = deadLetters.findIndex(job => job.jobId === jobId);
+  if (index === -1) {
+    return false;
+  }
+
+  const [deadLetter] = deadLetters.splice(index, 1);
+  jobs.push({
+    jobId: deadLetter.jobId,
+    type: deadLetter.type,
+    payload: deadLetter.payload,
+    attempts: 0,
+    createdAt: deadLetter.createdAt,
+    leasedUntil: null,
+    playerId: deadLetter.playerId
+  });
+  saveJobs();
+  logger.info(`[JOBS] Requeued dead-lettered ${deadLetter.type} job ${jobId}`);
+  notifyAvailable();
+  return true;
+}
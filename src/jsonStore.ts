@@ -0,0 +1,70 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from './logger';
+
+/**
+ * Small JSON file persistence used by the bridge's on-disk stores (data/*.json)
+ *
+ * Writes go to a temp file first and are renamed into place, so a crash mid-write
+ * never leaves a truncated store behind.
+ */
+
+export const dataDir = path.join(process.cwd(), 'data');
+
+function ensureDataDir() {
+  if (!fs.existsSync(dataDir)) {
+    fs.mkdirSync(dataDir, { recursive: true });
+  }
+}
+
+/**
+ * Resolve a file name given in a console command to a path inside data/
+ * Absolute paths and ".." are rejected, so commands can't read or write elsewhere.
+ */
+export function resolveDataPath(fileName: string): string {
+  if (path.isAbsolute(fileName) || path.win32.isAbsolute(fileName) || fileName.split(/[\\/]/).includes('..')) {
+    throw new Error(`"${fileName}" must be a file name inside data/ (no absolute paths or ..)`);
+  }
+  ensureDataDir();
+  return path.join(dataDir, fileName);
+}
+
+/**
+ * Load a JSON store, returning the fallback if it doesn't exist or can't be parsed
+ */
+export function loadJson<T>(fileName: string, fallback: T): T {
+  const filePath = path.join(dataDir, fileName);
+
+  try {
+    if (!fs.existsSync(filePath)) {
+      return fallback;
+    }
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as T;
+  } catch (error: any) {
+    // Keep the unreadable file for inspection instead of silently overwriting it
+    const backupPath = `${filePath}.corrupt-${Date.now()}`;
+    logger.error(`Failed to load ${fileName}: ${error.message} (moved to ${path.basename(backupPath)})`);
+    try {
+      fs.renameSync(filePath, backupPath);
+    } catch {
+      // Nothing else we can do - start from the fallback
+    }
+    return fallback;
+  }
+}
+
+/**
+ * Atomically write a JSON store
+ */
+export function saveJson(fileName: string, data: unknown) {
+  const filePath = path.join(dataDir, fileName);
+  const tempPath = `${filePath}.tmp`;
+
+  try {
+    ensureDataDir();
+    fs.writeFileSync(tempPath, JSON.stringify(data, null, 2));
+    fs.renameSync(tempPath, filePath);
+  } catch (error: any) {
+    logger.error(`Failed to save ${fileName}: ${error.message}`);
+  }
+}
@@ -0,0 +1,233 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import { exec, execFile } from 'child_process';
+import { promisify } from 'util';
+import { logger } from './logger';
+import * as palworldApi from './palworldApi';
+
+const execPromise = promisify(exec);
+const execFilePromise = promisify(execFile);
+
+/**
+ * Pluggable Palworld server liveness detection
+ *
+ * Strategies (SERVER_LIVENESS):
+ *  - tasklist: Windows process list (the original check)
+ *  - process:  process name match via /proc on Linux, pgrep elsewhere
+ *  - rest:     any HTTP answer from /v1/api/info
+ *  - pidfile:  PID read from a file is alive
+ *  - docker:   container State.Running via the local Docker socket
+ *  - auto:     tasklist on Windows, process everywhere else
+ * State changes are debounced: a new state must be observed on consecutive probes
+ * before it is reported, so one slow probe doesn't flap the server OFFLINE.
+ */
+
+export type LivenessStrategy = 'tasklist' | 'process' | 'rest' | 'pidfile' | 'docker';
+
+export interface LivenessOptions {
+  strategy: LivenessStrategy | 'auto';
+  processName: string;   // Empty = platform default
+  pidFile: string;
+  dockerContainer: string;
+  dockerSocket: string;
+  restTimeout: number;   // ms
+  debounce: number;      // Consecutive probes required to change state
+}
+
+const DEFAULT_PROCESS_NAMES: Record<string, string> = {
+  win32: 'PalServer-Win64-Shipping',
+  linux: 'PalServer-Linux'
+};
+
+let options: LivenessOptions;
+let strategy: LivenessStrategy;
+let processName = '';
+
+// Debounce state
+let reportedState: boolean | null = null;
+let candidateState: boolean | null = null;
+let candidateCount = 0;
+
+/**
+ * Resolve the configured strategy and process name
+ */
+export function initLiveness(livenessOptions: LivenessOptions) {
+  options = livenessOptions;
+  strategy = options.strategy === 'auto'
+    ? (process.platform === 'win32' ? 'tasklist' : 'process')
+    : options.strategy;
+  processName = options.processName || DEFAULT_PROCESS_NAMES[process.platform] || DEFAULT_PROCESS_NAMES.linux;
+
+  if (strategy === 'pidfile' && !options.pidFile) {
+    logger.error('[LIVENESS] SERVER_LIVENESS=pidfile requires SERVER_PID_FILE, falling back to rest');
+    strategy = 'rest';
+  }
+  if (strategy === 'docker' && !options.dockerContainer) {
+    logger.error('[LIVENESS] SERVER_LIVENESS=docker requires DOCKER_CONTAINER, falling back to rest');
+    strategy = 'rest';
+  }
+
+  logger.info(`[LIVENESS] Using ${describeLiveness()} (debounce: ${options.debounce} checks)`);
+}
+
+/**
+ * Human readable description of the active strategy
+ */
+export function describeLiveness(): string {
+  switch (strategy) {
+    case 'tasklist':
+      return `tasklist check for ${processName}`;
+    case 'process':
+      return `process check for ${processName}`;
+    case 'rest':
+      return 'REST probe of /v1/api/info';
+    case 'pidfile':
+      return `PID file ${options.pidFile}`;
+    case 'docker':
+      return `Docker container ${options.dockerContainer}`;
+  }
+}
+
+/**
+ * Windows: tasklist truncates long names, so match on the configured (truncated) name
+ */
+async function probeTasklist(): Promise<boolean> {
+  const { stdout } = await execPromise(`tasklist /FI "IMAGENAME eq ${processName}*" /NH`);
+  return stdout.includes(processName);
+}
+
+/**
+ * Linux: scan /proc for a matching command line; other platforms use pgrep
+ */
+async function probeProcess(): Promise<boolean> {
+  if (process.platform !== 'linux' || !fs.existsSync('/proc')) {
+    try {
+      // execFile (no shell) so pgrep can't match its own wrapper shell
+      await execFilePromise('pgrep', ['-f', processName]);
+      return true;
+    } catch {
+      // pgrep exits with 1 when nothing matches
+      return false;
+    }
+  }
+
+  const pids = (await fs.promises.readdir('/proc')).filter(entry => /^\d+$/.test(entry));
+  for (const pid of pids) {
+    try {
+      const cmdline = await fs.promises.readFile(`/proc/${pid}/cmdline`, 'utf-8');
+      if (cmdline.includes(processName)) {
+        return true;
+      }
+    } catch {
+      // Process exited while scanning
+    }
+  }
+  return false;
+}
+
+async function probePidFile(): Promise<boolean> {
+  if (!fs.existsSync(options.pidFile)) {
+    return false;
+  }
+
+  const pid = parseInt(fs.readFileSync(options.pidFile, 'utf-8').trim(), 10);
+  if (isNaN(pid)) {
+    return false;
+  }
+
+  try {
+    process.kill(pid, 0); // Signal 0 only checks that the process exists
+    return true;
+  } catch (error: any) {
+    // EPERM: process exists but belongs to another user
+    return error.code === 'EPERM';
+  }
+}
+
+function probeDocker(): Promise<boolean> {
+  return new Promise((resolve, reject) => {
+    const req = http.request({
+      socketPath: options.dockerSocket,
+      path: `/containers/${encodeURIComponent(options.dockerContainer)}/json`,
+      method: 'GET',
+      timeout: 5000
+    }, res => {
+      let body = '';
+      res.on('data', chunk => body += chunk);
+      res.on('end', () => {
+        if (res.statusCode === 404) {
+          resolve(false);
+          return;
+        }
+        if (res.statusCode !== 200) {
+          reject(new Error(`Docker API returned HTTP ${res.statusCode}`));
+          return;
+        }
+        try {
+          resolve(JSON.parse(body).State?.Running === true);
+        } catch (error: any) {
+          reject(new Error(`Invalid Docker API response: ${error.message}`));
+        }
+      });
+    });
+
+    req.on('timeout', () => req.destroy(new Error('Docker API request timed out')));
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+/**
+ * Run the configured probe once (undebounced)
+ */
+async function probe(): Promise<boolean> {
+  switch (strategy) {
+    case 'tasklist':
+      return probeTasklist();
+    case 'process':
+      return probeProcess();
+    case 'rest':
+      return palworldApi.probeServer(options.restTimeout);
+    case 'pidfile':
+      return probePidFile();
+    case 'docker':
+      return probeDocker();
+  }
+}
+
+/**
+ * Probe the server and return the debounced running state
+ * The first probe is reported immediately so startup isn't delayed.
+ */
+export async function checkLiveness(): Promise<boolean> {
+  let observed: boolean;
+  try {
+    observed = await probe();
+  } catch (error: any) {
+    logger.error(`[LIVENESS] ${describeLiveness()} failed: ${error.message}`);
+    observed = false;
+  }
+
+  if (reportedState === null || observed === reportedState) {
+    reportedState = observed;
+    candidateState = null;
+    candidateCount = 0;
+    return reportedState;
+  }
+
+  if (candidateState !== observed) {
+    candidateState = observed;
+    candidateCount = 0;
+  }
+  candidateCount++;
+
+  if (candidateCount >= options.debounce) {
+    reportedState = observed;
+    candidateState = null;
+    candidateCount = 0;
+  } else {
+    logger.debug(`[LIVENESS] Server looks ${observed ? 'ONLINE' : 'OFFLINE'} (${candidateCount}/${options.debounce} checks)`);
+  }
+
+  return reportedState;
+}
@@ -0,0 +1,84 @@
+import winston from 'winston';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Create logs directory if it doesn't exist
+const logsDir = path.join(process.cwd(), 'logs');
+if (!fs.existsSync(logsDir)) {
+  fs.mkdirSync(logsDir, { recursive: true });
+}
+
+// Function to get current log filename
+function getLogFilename(): string {
+  const now = new Date();
+  const year = now.getFullYear();
+  const month = String(now.getMonth() + 1).padStart(2, '0');
+  const day = String(now.getDate()).padStart(2, '0');
+  const hour = String(now.getHours()).padStart(2, '0');
+  return path.join(logsDir, `${year}-${month}-${day}_${hour}.log`);
+}
+
+// Logger state for hourly rotation
+let currentLogFilename = getLogFilename();
+let fileTransport = new winston.transports.File({ filename: currentLogFilename });
+
+// Configure logger
+export const logger = winston.createLogger({
+  level: 'info',
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.printf(({ timestamp, level, message }) => {
+      return `${timestamp} [${level.toUpperCase()}] ${message}`;
+    })
+  ),
+  transports: [
+    new winston.transports.Console(),
+    fileTransport
+  ]
+});
+
+// Function to clean up old log files (keep only 10 most recent)
+function cleanupOldLogs() {
+  try {
+    const files = fs.readdirSync(logsDir)
+      .filter(f => f.endsWith('.log'))
+      .map(f => ({
+        name: f,
+        path: path.join(logsDir, f),
+        mtime: fs.statSync(path.join(logsDir, f)).mtime
+      }))
+      .sort((a, b) => b.mtime.getTime() - a.mtime.getTime()); // Sort newest first
+
+    // Keep only the 10 most recent, delete the rest
+    if (files.length > 10) {
+      const filesToDelete = files.slice(10);
+      filesToDelete.forEach(file => {
+        fs.unlinkSync(file.path);
+        logger.info(`Deleted old log file: ${file.name}`);
+      });
+    }
+  } catch (error: any) {
+    logger.error(`Failed to cleanup old logs: ${error.message}`);
+  }
+}
+
+// Rotate log file every hour
+setInterval(() => {
+  const newLogFilename = getLogFilename();
+  if (newLogFilename !== currentLogFilename) {
+    logger.info('Rotating log file...');
+
+    // Remove old file transport
+    logger.remove(fileTransport);
+
+    // Create new file transport
+    currentLogFilename = newLogFilename;
+    fileTransport = new winston.transports.File({ filename: currentLogFilename });
+    logger.add(fileTransport);
+
+    logger.info('Log file rotated to: ' + currentLogFilename);
+
+    // Clean up old logs after rotation
+    cleanupOldLogs();
+  }
+}, 60000).unref(); // Check every minute (without keeping the process alive on its own)
@@ -0,0 +1,289 @@
+import { logger } from './logger';
+import { formatDuration } from './duration';
+import { loadJson, saveJson } from './jsonStore';
+
+/**
+ * Bridge-side chat moderation
+ *
+ * Every chat message is checked against the word/regex filter, the per-player
+ * rate limit and repeated-message detection before it is relayed to Takaro.
+ * Each violation is a strike; strikes walk up the sanction ladder (by default
+ * warn -> mute -> kick -> temporary ban) and expire after strikeDecay without
+ * new violations. Violations within strikeCooldown of the last strike are blocked
+ * but don't add a strike, so one burst of spam costs a single step. Strikes and
+ * mutes are saved to data/moderation.json and survive a bridge restart.
+ * A mute only stops the relay to Takaro: Palworld has no way to silence a player
+ * in-game, so players in range still see the message.
+ */
+
+export type Sanction = 'warn' | 'mute' | 'kick' | 'ban';
+
+export interface ModerationOptions {
+  enabled: boolean;
+  words: string[];            // Blocked words (whole word, case-insensitive)
+  patterns: string[];         // Blocked regular expressions (case-insensitive)
+  rateLimit: number;          // Messages allowed per rateWindow (0 = no limit)
+  rateWindow: number;         // ms
+  repeatLimit: number;        // Identical messages allowed per repeatWindow (0 = no limit)
+  repeatWindow: number;       // ms
+  sanctions: Sanction[];      // Escalation ladder, one step per strike
+  muteDuration: number;       // ms
+  banDuration: number;        // ms
+  strikeDecay: number;        // ms without violations after which strikes reset
+  strikeCooldown: number;     // ms after a strike in which further violations add no strike
+}
+
+export interface ModerationActions {
+  announce: (message: string) => Promise<void>;
+  kick: (gameId: string, reason: string) => Promise<boolean>;
+  ban: (gameId: string, reason: string, expiresAt: string) => Promise<boolean>;
+  report: (message: string) => void;
+}
+
+export interface ModeratedPlayer {
+  gameId: string;
+  name: string;
+}
+
+export interface ModerationVerdict {
+  allowed: boolean;
+  reason?: string;
+  sanction?: Sanction;
+}
+
+interface PlayerRecord {
+  name: string;
+  messageTimes: number[];
+  recentMessages: Array<{ text: string; at: number }>;
+  strikes: number;
+  lastStrikeAt: number;
+  mutedUntil: number;
+}
+
+// Strike state saved per gameId; message history is only kept in memory
+interface SavedRecord {
+  name: string;
+  strikes: number;
+  lastStrikeAt: number;
+  mutedUntil: number;
+}
+
+interface ModerationFile {
+  version: number;
+  players: Record<string, SavedRecord>;
+}
+
+export const SANCTIONS: Sanction[] = ['warn', 'mute', 'kick', 'ban'];
+
+const MODERATION_FILE = 'moderation.json';
+
+let options: ModerationOptions;
+let actions: ModerationActions;
+let filters: Array<{ label: string; pattern: RegExp }> = [];
+const players = new Map<string, PlayerRecord>();
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Compile the filter, set the sanction actions and load saved strikes and mutes
+ * Invalid regular expressions are logged and skipped.
+ */
+export function initModeration(moderationOptions: ModerationOptions, moderationActions: ModerationActions) {
+  options = moderationOptions;
+  actions = moderationActions;
+  filters = [];
+
+  for (const word of options.words) {
+    filters.push({ label: 'blocked word', pattern: new RegExp(`\\b${escapeRegExp(word)}\\b`, 'i') });
+  }
+  for (const source of options.patterns) {
+    try {
+      filters.push({ label: 'blocked pattern', pattern: new RegExp(source, 'i') });
+    } catch (error: any) {
+      logger.warn(`[MODERATION] Ignoring invalid filter pattern /${source}/: ${error.message}`);
+    }
+  }
+
+  players.clear();
+  const saved = loadJson<ModerationFile>(MODERATION_FILE, { version: 1, players: {} });
+  for (const [gameId, record] of Object.entries(saved.players)) {
+    players.set(gameId, { ...record, messageTimes: [], recentMessages: [] });
+  }
+
+  if (options.enabled) {
+    logger.info(`[MODERATION] Chat moderation enabled (${filters.length} filters, rate ${options.rateLimit || 'unlimited'}/${options.rateWindow / 1000}s, sanctions: ${options.sanctions.join(' -> ')})`);
+  }
+}
+
+export function isModerationEnabled(): boolean {
+  return options?.enabled === true;
+}
+
+function isActive(record: PlayerRecord, now: number): boolean {
+  return (record.strikes > 0 && now - record.lastStrikeAt <= options.strikeDecay) || record.mutedUntil > now;
+}
+
+/**
+ * Save strikes and mutes that still matter
+ */
+function saveRecords() {
+  const now = Date.now();
+  const saved: Record<string, SavedRecord> = {};
+  for (const [gameId, record] of players) {
+    if (isActive(record, now)) {
+      saved[gameId] = { name: record.name, strikes: record.strikes, lastStrikeAt: record.lastStrikeAt, mutedUntil: record.mutedUntil };
+    }
+  }
+  saveJson(MODERATION_FILE, { version: 1, players: saved });
+}
+
+function getRecord(player: ModeratedPlayer): PlayerRecord {
+  let record = players.get(player.gameId);
+  if (!record) {
+    record = { name: player.name, messageTimes: [], recentMessages: [], strikes: 0, lastStrikeAt: 0, mutedUntil: 0 };
+    players.set(player.gameId, record);
+  }
+  record.name = player.name;
+  return record;
+}
+
+/**
+ * Find the first rule the message breaks, if any
+ */
+function findViolation(record: PlayerRecord, message: string, now: number): string | null {
+  for (const filter of filters) {
+    if (filter.pattern.test(message)) {
+      return filter.label;
+    }
+  }
+
+  record.messageTimes = record.messageTimes.filter(time => now - time < options.rateWindow);
+  record.messageTimes.push(now);
+  if (options.rateLimit > 0 && record.messageTimes.length > options.rateLimit) {
+    return `more than ${options.rateLimit} messages in ${formatDuration(options.rateWindow)}`;
+  }
+
+  const text = message.trim().toLowerCase().replace(/\s+/g, ' ');
+  record.recentMessages = record.recentMessages.filter(entry => now - entry.at < options.repeatWindow);
+  record.recentMessages.push({ text, at: now });
+  const repeats = record.recentMessages.filter(entry => entry.text === text).length;
+  if (options.repeatLimit > 0 && repeats > options.repeatLimit) {
+    return `repeated the same message ${repeats} times`;
+  }
+
+  return null;
+}
+
+function announceSafely(message: string) {
+  actions.announce(message).catch((error: any) => {
+    logger.error(`[MODERATION] Failed to announce "${message}": ${error.message}`);
+  });
+}
+
+/**
+ * Apply the sanction for the player's current strike count
+ */
+async function applySanction(player: ModeratedPlayer, record: PlayerRecord, reason: string, now: number): Promise<Sanction> {
+  const sanction = options.sanctions[Math.min(record.strikes, options.sanctions.length) - 1];
+  const strikeInfo = `strike ${record.strikes}`;
+
+  switch (sanction) {
+    case 'warn':
+      announceSafely(`${player.name}, watch your chat: ${reason}. Further violations will be sanctioned.`);
+      break;
+
+    case 'mute':
+      record.mutedUntil = now + options.muteDuration;
+      announceSafely(`${player.name} has been muted for ${formatDuration(options.muteDuration)}: ${reason}`);
+      break;
+
+    case 'kick':
+      if (!await actions.kick(player.gameId, `Chat moderation: ${reason}`)) {
+        logger.error(`[MODERATION] Failed to kick ${player.name}`);
+      }
+      break;
+
+    case 'ban': {
+      const expiresAt = new Date(now + options.banDuration).toISOString();
+      if (!await actions.ban(player.gameId, `Chat moderation: ${reason}`, expiresAt)) {
+        logger.error(`[MODERATION] Failed to ban ${player.name}`);
+      }
+      break;
+    }
+  }
+
+  const summary = `[MODERATION] ${player.name} (${player.gameId}): ${reason} - ${sanction} (${strikeInfo})`;
+  logger.warn(summary);
+  actions.report(`Chat moderation: ${sanction} ${player.name} (${strikeInfo}) for ${reason}`);
+  return sanction;
+}
+
+/**
+ * Check a chat message; returns whether it may be relayed to Takaro
+ */
+export async function moderateMessage(player: ModeratedPlayer, message: string): Promise<ModerationVerdict> {
+  if (!isModerationEnabled()) {
+    return { allowed: true };
+  }
+
+  const now = Date.now();
+  const record = getRecord(player);
+
+  if (record.mutedUntil > now) {
+    logger.debug(`[MODERATION] ${player.name} is muted, not relaying: ${message}`);
+    return { allowed: false, reason: 'muted' };
+  }
+
+  const violation = findViolation(record, message, now);
+  if (!violation) {
+    return { allowed: true };
+  }
+
+  // Same offense window as the last strike: block the message, but don't escalate
+  if (record.strikes > 0 && now - record.lastStrikeAt < options.strikeCooldown) {
+    logger.debug(`[MODERATION] ${player.name}: ${violation} (within the strike cooldown, not relayed)`);
+    return { allowed: false, reason: violation };
+  }
+
+  if (record.strikes > 0 && now - record.lastStrikeAt > options.strikeDecay) {
+    record.strikes = 0;
+  }
+  record.strikes++;
+  record.lastStrikeAt = now;
+
+  const sanction = await applySanction(player, record, violation, now);
+  saveRecords();
+  return { allowed: false, reason: violation, sanction };
+}
+
+/**
+ * Lift a relay mute and clear the player's strikes; returns false if there was nothing to clear
+ */
+export function pardonPlayer(gameId: string): boolean {
+  const record = players.get(gameId);
+  if (!record || (record.strikes === 0 && record.mutedUntil <= Date.now())) {
+    return false;
+  }
+  record.strikes = 0;
+  record.mutedUntil = 0;
+  saveRecords();
+  logger.info(`[MODERATION] Pardoned ${record.name} (${gameId})`);
+  return true;
+}
+
+/**
+ * Players with active strikes or mutes
+ */
+export function listModeratedPlayers(): Array<{ gameId: string; name: string; strikes: number; mutedUntil: number | null }> {
+  const now = Date.now();
+  return Array.from(players.entries())
+    .filter(([, record]) => isActive(record, now))
+    .map(([gameId, record]) => ({
+      gameId,
+      name: record.name,
+      strikes: now - record.lastStrikeAt <= options.strikeDecay ? record.strikes : 0,
+      mutedUntil: record.mutedUntil > now ? record.mutedUntil : null
+    }));
+}
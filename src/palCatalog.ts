@@ -0,0 +1,59 @@
+import catalogFile from './data/pals.json';
+import { searchCatalog } from './catalogSearch';
+
+/**
+ * Bundled Pal species catalog (src/data/pals.json)
+ *
+ * Internal character ID (what the game and the mod's spawn use), display name,
+ * element types and rarity. Served to Takaro through listEntities so modules can
+ * offer Pals as rewards; bump "version" in the JSON when species change.
+ */
+
+export interface CatalogPal {
+  id: string;          // Internal character ID, e.g. "SheepBall"
+  name: string;        // Display name, e.g. "Lamball"
+  elements: string[];
+  rarity: string;
+}
+
+export interface PalMatch {
+  pal: CatalogPal | null;
+  suggestions: CatalogPal[];  // Closest species when the query was ambiguous or unknown
+}
+
+const pals: CatalogPal[] = catalogFile.pals;
+const PAL_ID_PATTERN = /^[A-Za-z0-9_]{1,64}$/;
+
+export const CATALOG_VERSION: number = catalogFile.version;
+export const MAX_PAL_LEVEL: number = catalogFile.maxLevel;
+
+export function listCatalogPals(): CatalogPal[] {
+  return [...pals];
+}
+
+/**
+ * Pals in Takaro's listEntities format
+ */
+export function toTakaroEntities(): Array<{ code: string; name: string; description: string; type: string }> {
+  return pals.map(pal => ({
+    code: pal.id,
+    name: pal.name,
+    description: `${pal.rarity} ${pal.elements.join('/')} Pal`,
+    type: 'friendly'
+  }));
+}
+
+/**
+ * Find a Pal by internal ID or display name; near misses only come back as suggestions (see catalogSearch)
+ */
+export function resolvePal(query: string): PalMatch {
+  const match = searchCatalog(pals, query);
+  return { pal: match.entry, suggestions: match.suggestions };
+}
+
+/**
+ * Whether an ID not in the catalog can be sent to the mod as-is (e.g. "Kirin_Ice")
+ */
+export function isValidPalId(id: string): boolean {
+  return PAL_ID_PATTERN.test(id);
+}
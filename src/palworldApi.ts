@@ -0,0 +1,324 @@
+import axios, { AxiosInstance } from 'axios';
+import { logger } from './logger';
+
+/**
+ * Typed client for the Palworld v1 REST API (/v1/api/*)
+ *
+ * All requests share one axios instance with Basic auth. Transient failures
+ * (connection errors, timeouts, 5xx, 429) are retried with jittered exponential
+ * backoff, and a circuit breaker stops calls for a while once the server stops
+ * answering so handlers fail fast instead of stacking 10s timeouts.
+ */
+
+// Response models
+export interface PalworldServerInfo {
+  version: string;
+  servername: string;
+  description: string;
+  worldguid: string;
+}
+
+export interface PalworldPlayer {
+  name: string;
+  accountName: string;
+  playerId: string;
+  userId: string;
+  ip: string;
+  ping: number;
+  location_x: number;
+  location_y: number;
+  location_z?: number; // Not sent by current server builds, kept for forward compatibility
+  level: number;
+  building_count?: number;
+}
+
+export interface PalworldPlayersResponse {
+  players: PalworldPlayer[];
+}
+
+export interface PalworldServerMetrics {
+  serverfps: number;
+  currentplayernum: number;
+  serverframetime: number;
+  maxplayernum: number;
+  uptime: number;
+  days?: number;
+}
+
+// Settings are a flat map of PalWorldSettings.ini keys (Difficulty, ExpRate, ...)
+export type PalworldServerSettings = Record<string, string | number | boolean>;
+
+export interface PalworldApiOptions {
+  baseUrl: string;
+  username: string;
+  password: string;
+  timeout: number;             // Per-request timeout in ms
+  maxRetries: number;          // Retries after the first attempt for transient errors
+  retryBaseDelay: number;      // Base backoff delay in ms (doubles per attempt)
+  breakerThreshold: number;    // Consecutive transient failures before the circuit opens
+  breakerResetTimeout: number; // ms the circuit stays open before a trial request
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Error thrown by every client call, so handlers can report failures consistently
+ */
+export class PalworldApiError extends Error {
+  constructor(
+    message: string,
+    public readonly endpoint: string,
+    public readonly status?: number,
+    public readonly code?: string,
+    public readonly transient: boolean = false
+  ) {
+    super(message);
+    this.name = 'PalworldApiError';
+  }
+}
+
+const MAX_RETRY_DELAY = 5000;
+const TRANSIENT_ERROR_CODES = new Set(['ECONNREFUSED', 'ECONNRESET', 'ECONNABORTED', 'ETIMEDOUT', 'EHOSTUNREACH', 'ENETUNREACH', 'EPIPE', 'EAI_AGAIN']);
+
+let client: AxiosInstance;
+let options: PalworldApiOptions;
+
+// Circuit breaker state
+let circuitState: CircuitState = 'closed';
+let consecutiveFailures = 0;
+let circuitOpenedAt = 0;
+let halfOpenTrialInFlight = false;
+
+/**
+ * Initialize the shared Palworld REST API client
+ */
+export function initPalworldApi(apiOptions: PalworldApiOptions) {
+  options = apiOptions;
+  const authString = Buffer.from(`${options.username}:${options.password}`).toString('base64');
+
+  client = axios.create({
+    baseURL: options.baseUrl,
+    timeout: options.timeout,
+    maxBodyLength: Infinity,
+    headers: {
+      'Accept': 'application/json',
+      'Authorization': `Basic ${authString}`
+    }
+  });
+
+  logger.info(`Palworld API client initialized for ${options.baseUrl} (retries: ${options.maxRetries}, breaker: ${options.breakerThreshold} failures / ${options.breakerResetTimeout / 1000}s)`);
+}
+
+/**
+ * Current circuit breaker state (for status output)
+ */
+export function getCircuitState(): CircuitState {
+  return circuitState;
+}
+
+/**
+ * Convert an axios error into a PalworldApiError
+ */
+function toApiError(endpoint: string, error: any): PalworldApiError {
+  if (error instanceof PalworldApiError) {
+    return error;
+  }
+
+  const status: number | undefined = error.response?.status;
+  const code: string | undefined = error.code;
+
+  if (status !== undefined) {
+    const transient = status >= 500 || status === 429;
+    const detail = typeof error.response.data === 'string' && error.response.data ? `: ${error.response.data}` : '';
+    return new PalworldApiError(`${endpoint} failed with HTTP ${status}${detail}`, endpoint, status, code, transient);
+  }
+
+  const transient = code !== undefined && TRANSIENT_ERROR_CODES.has(code);
+  return new PalworldApiError(`${endpoint} failed: ${error.message}`, endpoint, undefined, code, transient || !code);
+}
+
+/**
+ * Throw if the circuit is open, or move it to half-open once the reset timeout passed
+ */
+function checkCircuit(endpoint: string) {
+  if (circuitState === 'open') {
+    const remaining = circuitOpenedAt + options.breakerResetTimeout - Date.now();
+    if (remaining > 0) {
+      throw new PalworldApiError(
+        `${endpoint} skipped: Palworld API circuit open (server not answering, retry in ${Math.ceil(remaining / 1000)}s)`,
+        endpoint, undefined, 'CIRCUIT_OPEN', true
+      );
+    }
+    circuitState = 'half-open';
+    logger.info('[PALWORLD API] Circuit half-open, sending trial request');
+  }
+
+  if (circuitState === 'half-open') {
+    if (halfOpenTrialInFlight) {
+      throw new PalworldApiError(
+        `${endpoint} skipped: Palworld API circuit half-open, trial request in progress`,
+        endpoint, undefined, 'CIRCUIT_OPEN', true
+      );
+    }
+    halfOpenTrialInFlight = true;
+  }
+}
+
+/**
+ * The server answered (even with a 4xx), so close the circuit
+ */
+function recordServerAnswered() {
+  halfOpenTrialInFlight = false;
+  consecutiveFailures = 0;
+  if (circuitState !== 'closed') {
+    circuitState = 'closed';
+    logger.info('[PALWORLD API] Circuit closed, server is answering again');
+  }
+}
+
+/**
+ * The server did not answer; open the circuit once the threshold is reached
+ */
+function recordTransientFailure(endpoint: string) {
+  halfOpenTrialInFlight = false;
+  consecutiveFailures++;
+
+  if (circuitState === 'half-open' || (circuitState === 'closed' && consecutiveFailures >= options.breakerThreshold)) {
+    circuitState = 'open';
+    circuitOpenedAt = Date.now();
+    logger.warn(`[PALWORLD API] Circuit open after ${consecutiveFailures} consecutive failures (last: ${endpoint}), pausing requests for ${options.breakerResetTimeout / 1000}s`);
+  }
+}
+
+/**
+ * Exponential backoff with jitter (same shape as the Takaro reconnect delay)
+ */
+function getRetryDelay(attempt: number): number {
+  const exponentialDelay = Math.min(options.retryBaseDelay * Math.pow(2, attempt - 1), MAX_RETRY_DELAY);
+  const jitter = Math.random() * exponentialDelay * 0.25;
+  return Math.round(exponentialDelay + jitter);
+}
+
+/**
+ * Send a request with retries and circuit breaker handling
+ *
+ * Non-idempotent calls (announce, kick, shutdown, ...) are only retried when the
+ * connection was refused, because then the server never saw the request.
+ */
+async function request<T>(method: 'get' | 'post', url: string, data?: object): Promise<T> {
+  if (!client) {
+    throw new PalworldApiError('Palworld API client not initialized', url);
+  }
+
+  const endpoint = `${method.toUpperCase()} ${url}`;
+  const idempotent = method === 'get';
+  let attempt = 0;
+
+  while (true) {
+    checkCircuit(endpoint);
+
+    try {
+      const response = await client.request<T>({
+        method,
+        url,
+        data,
+        headers: data ? { 'Content-Type': 'application/json' } : undefined
+      });
+      recordServerAnswered();
+      return response.data;
+    } catch (error: any) {
+      const apiError = toApiError(endpoint, error);
+
+      if (apiError.transient) {
+        recordTransientFailure(endpoint);
+      } else {
+        recordServerAnswered();
+      }
+
+      const canRetry = apiError.transient &&
+        (idempotent || apiError.code === 'ECONNREFUSED') &&
+        attempt < options.maxRetries &&
+        circuitState === 'closed';
+
+      if (!canRetry) {
+        throw apiError;
+      }
+
+      attempt++;
+      const delay = getRetryDelay(attempt);
+      logger.warn(`[PALWORLD API] ${apiError.message} - retry ${attempt}/${options.maxRetries} in ${delay}ms`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
+
+/**
+ * Single liveness probe against /v1/api/info
+ * Bypasses retries and the circuit breaker; any HTTP answer (even 401) means the server is up
+ */
+export async function probeServer(timeout: number): Promise<boolean> {
+  if (!client) {
+    return false;
+  }
+
+  try {
+    await client.get('/v1/api/info', { timeout });
+    recordServerAnswered();
+    return true;
+  } catch (error: any) {
+    if (error.response) {
+      recordServerAnswered();
+      return true;
+    }
+    return false;
+  }
+}
+
+// GET endpoints
+
+export function getServerInfo(): Promise<PalworldServerInfo> {
+  return request<PalworldServerInfo>('get', '/v1/api/info');
+}
+
+export async function getPlayers(): Promise<PalworldPlayer[]> {
+  const response = await request<PalworldPlayersResponse>('get', '/v1/api/players');
+  return response.players || [];
+}
+
+export function getServerSettings(): Promise<PalworldServerSettings> {
+  return request<PalworldServerSettings>('get', '/v1/api/settings');
+}
+
+export function getServerMetrics(): Promise<PalworldServerMetrics> {
+  return request<PalworldServerMetrics>('get', '/v1/api/metrics');
+}
+
+// POST endpoints
+
+export async function announce(message: string): Promise<void> {
+  await request('post', '/v1/api/announce', { message });
+}
+
+export async function kickPlayer(userId: string, message?: string): Promise<void> {
+  await request('post', '/v1/api/kick', { userid: userId, message });
+}
+
+export async function banPlayer(userId: string, message?: string): Promise<void> {
+  await request('post', '/v1/api/ban', { userid: userId, message });
+}
+
+export async function unbanPlayer(userId: string): Promise<void> {
+  await request('post', '/v1/api/unban', { userid: userId });
+}
+
+export async function saveWorld(): Promise<void> {
+  await request('post', '/v1/api/save');
+}
+
+export async function shutdownServer(waittime: number, message?: string): Promise<void> {
+  await request('post', '/v1/api/shutdown', { waittime, message });
+}
+
+export async function stopServer(): Promise<void> {
+  await request('post', '/v1/api/stop');
+}
@@ -0,0 +1,138 @@
+import { logger } from './logger';
+import * as palworldApi from './palworldApi';
+
+/**
+ * Coalesced, cached view of /v1/api/players
+ *
+ * The Palworld REST API kicks players when it is hammered, so every caller goes
+ * through this service: concurrent refreshes share one in-flight request, and
+ * reads within the TTL are served from the last snapshot. The 10-second poll
+ * keeps the snapshot warm in the background.
+ */
+
+// Player as exposed to Takaro and the rest of the bridge
+export interface BridgePlayer {
+  gameId: string;
+  name: string;                // Character name (for Takaro)
+  accountName: string;         // Steam account name (for Lua - what PlayerNamePrivate returns)
+  platformId: string;
+  steamId: string;
+  palworldPlayerId: string;    // GUID from Palworld API - matches PlayerState.PlayerId in UE4SS
+  ip?: string;
+  ping?: number;
+  positionX?: number;
+  positionY?: number;
+  positionZ?: number;
+}
+
+let ttl = 5000;
+let snapshot: BridgePlayer[] = [];
+let snapshotTime = 0;
+let inFlight: Promise<BridgePlayer[]> | null = null;
+const refreshListeners: Array<(players: BridgePlayer[]) => void> = [];
+
+/**
+ * Configure the snapshot TTL (ms)
+ */
+export function initPlayerList(snapshotTtl: number) {
+  ttl = snapshotTtl;
+  logger.info(`Player list service initialized (snapshot TTL: ${ttl}ms)`);
+}
+
+/**
+ * Register a callback that runs after every successful refresh
+ */
+export function onPlayersRefreshed(listener: (players: BridgePlayer[]) => void) {
+  refreshListeners.push(listener);
+}
+
+/**
+ * Map a raw API player to the bridge player shape
+ */
+function mapPlayer(player: palworldApi.PalworldPlayer): BridgePlayer {
+  const raw: any = player;
+  return {
+    gameId: String(player.userId),
+    name: String(player.name),
+    accountName: String(player.accountName || player.name),
+    platformId: `palworld:${player.userId}`,
+    steamId: String(player.userId),
+    palworldPlayerId: String(player.playerId || ''),
+    ip: player.ip || undefined,
+    ping: player.ping !== undefined ? player.ping : undefined,
+    positionX: player.location_x !== undefined ? player.location_x : (raw.x !== undefined ? raw.x : undefined),
+    positionY: player.location_y !== undefined ? player.location_y : (raw.y !== undefined ? raw.y : undefined),
+    positionZ: player.location_z !== undefined ? player.location_z : (raw.z !== undefined ? raw.z : undefined)
+  };
+}
+
+/**
+ * Fetch a fresh player list, joining the in-flight request if there is one
+ */
+export function refreshPlayers(): Promise<BridgePlayer[]> {
+  if (inFlight) {
+    return inFlight;
+  }
+
+  inFlight = palworldApi.getPlayers()
+    .then(players => {
+      snapshot = players.map(mapPlayer);
+      snapshotTime = Date.now();
+
+      for (const listener of refreshListeners) {
+        try {
+          listener(snapshot);
+        } catch (error: any) {
+          logger.error(`Player refresh listener failed: ${error.message}`);
+        }
+      }
+
+      return snapshot;
+    })
+    .finally(() => {
+      inFlight = null;
+    });
+
+  return inFlight;
+}
+
+/**
+ * Get the player list, served from the snapshot while it is younger than the TTL
+ */
+export async function getPlayers(): Promise<BridgePlayer[]> {
+  if (snapshotTime > 0 && Date.now() - snapshotTime < ttl) {
+    return snapshot;
+  }
+  return refreshPlayers();
+}
+
+/**
+ * Last known player list without touching the API
+ */
+export function getSnapshot(): BridgePlayer[] {
+  return snapshot;
+}
+
+/**
+ * Find an online player, refreshing once if a cached snapshot doesn't contain them
+ * (covers players that joined since the last poll)
+ */
+export async function findPlayer(predicate: (player: BridgePlayer) => boolean): Promise<BridgePlayer | undefined> {
+  const wasCached = snapshotTime > 0 && Date.now() - snapshotTime < ttl;
+  const players = await getPlayers();
+  const player = players.find(predicate);
+
+  if (player || !wasCached) {
+    return player;
+  }
+
+  return (await refreshPlayers()).find(predicate);
+}
+
+/**
+ * Drop the snapshot so the next read goes to the API (used on server restart)
+ */
+export function invalidatePlayers() {
+  snapshot = [];
+  snapshotTime = 0;
+}
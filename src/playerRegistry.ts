@@ -0,0 +1,144 @@
+import { logger } from './logger';
+import { loadJson, saveJson } from './jsonStore';
+import { BridgePlayer } from './playerList';
+
+/**
+ * Persistent registry of every player the bridge has seen (data/players.json)
+ *
+ * Unlike playerCache, this survives bridge and server restarts, so events for
+ * players who already went offline can still be resolved to a gameId.
+ */
+
+export interface RegisteredPlayer {
+  userId: string;              // Takaro gameId (steam_...)
+  palworldPlayerId: string;    // Palworld player GUID
+  name: string;                // Current character name
+  accountNames: string[];      // Account name history, oldest first
+  lastIp?: string;
+  firstSeen: string;
+  lastSeen: string;
+}
+
+interface RegistryFile {
+  version: number;
+  players: Record<string, RegisteredPlayer>;
+}
+
+const REGISTRY_FILE = 'players.json';
+const LAST_SEEN_FLUSH_INTERVAL = 60000; // lastSeen-only updates are batched
+
+let registry: RegistryFile = { version: 1, players: {} };
+let dirty = false;
+let flushInterval: NodeJS.Timeout | null = null;
+
+/**
+ * Load the registry from disk and start the periodic flush
+ */
+export function initPlayerRegistry() {
+  registry = loadJson<RegistryFile>(REGISTRY_FILE, { version: 1, players: {} });
+  logger.info(`Player registry loaded (${Object.keys(registry.players).length} known players)`);
+
+  if (!flushInterval) {
+    flushInterval = setInterval(flushPlayerRegistry, LAST_SEEN_FLUSH_INTERVAL);
+  }
+}
+
+/**
+ * Write pending changes to disk
+ */
+export function flushPlayerRegistry() {
+  if (dirty) {
+    saveJson(REGISTRY_FILE, registry);
+    dirty = false;
+  }
+}
+
+/**
+ * Record the currently online players
+ * New players and name/IP changes are saved immediately; lastSeen is batched
+ */
+export function recordPlayers(players: BridgePlayer[]) {
+  const now = new Date().toISOString();
+  let changed = false;
+
+  for (const player of players) {
+    const existing = registry.players[player.gameId];
+
+    if (!existing) {
+      registry.players[player.gameId] = {
+        userId: player.gameId,
+        palworldPlayerId: player.palworldPlayerId,
+        name: player.name,
+        accountNames: [player.accountName],
+        lastIp: player.ip,
+        firstSeen: now,
+        lastSeen: now
+      };
+      logger.info(`[REGISTRY] New player registered: ${player.name} (${player.gameId})`);
+      changed = true;
+      continue;
+    }
+
+    if (existing.name !== player.name) {
+      logger.info(`[REGISTRY] ${existing.name} is now known as ${player.name} (${player.gameId})`);
+      existing.name = player.name;
+      changed = true;
+    }
+    if (!existing.accountNames.includes(player.accountName)) {
+      existing.accountNames.push(player.accountName);
+      changed = true;
+    }
+    if (player.palworldPlayerId && existing.palworldPlayerId !== player.palworldPlayerId) {
+      existing.palworldPlayerId = player.palworldPlayerId;
+      changed = true;
+    }
+    if (player.ip && existing.lastIp !== player.ip) {
+      existing.lastIp = player.ip;
+      changed = true;
+    }
+    existing.lastSeen = now;
+  }
+
+  dirty = dirty || players.length > 0;
+  if (changed) {
+    flushPlayerRegistry();
+  }
+}
+
+/**
+ * Get a registered player by gameId / userId
+ */
+export function getRegisteredPlayer(userId: string): RegisteredPlayer | undefined {
+  return registry.players[userId];
+}
+
+/**
+ * Find a registered player by gameId, Palworld GUID, character name or any past account name
+ * Name matches are case-insensitive; the most recently seen player wins
+ */
+export function findRegisteredPlayer(identifier: string): RegisteredPlayer | undefined {
+  if (!identifier) {
+    return undefined;
+  }
+
+  const byId = registry.players[identifier];
+  if (byId) {
+    return byId;
+  }
+
+  const lower = identifier.toLowerCase();
+  const matches = Object.values(registry.players).filter(p =>
+    p.palworldPlayerId.toLowerCase() === lower ||
+    p.name.toLowerCase() === lower ||
+    p.accountNames.some(name => name.toLowerCase() === lower)
+  );
+
+  return matches.sort((a, b) => b.lastSeen.localeCompare(a.lastSeen))[0];
+}
+
+/**
+ * Number of players in the registry
+ */
+export function getRegisteredPlayerCount(): number {
+  return Object.keys(registry.players).length;
+}
@@ -0,0 +1,147 @@
+import { IncomingMessage, Server } from 'http';
+import { Duplex } from 'stream';
+import { Request, Response } from 'express';
+import WebSocket, { WebSocketServer } from 'ws';
+import { logger } from './logger';
+import { isAuthorizedUpgrade } from './httpSecurity';
+import { JobType } from './jobQueue';
+
+/**
+ * Single push channel for jobs queued for the TakaroChat mod
+ *
+ * Instead of polling /teleport-queue, /location-queue and /item-queue every
+ * second, the mod can long-poll GET /jobs?wait=<seconds> (answered as soon as
+ * a job is queued) or keep a WebSocket open on /jobs/ws. Jobs are leased to the
+ * oldest waiting client (see jobQueue); while nobody is listening they stay
+ * queued so the legacy endpoints keep working for older mod versions.
+ */
+
+// Job payloads keep the field order of the legacy queue entries (the Lua parser depends on it)
+export type ModJob = { type: JobType } & Record<string, unknown>;
+
+export interface PushChannelOptions {
+  maxWait: number;   // Longest long-poll wait in seconds
+  secret: string;    // BRIDGE_SECRET for WebSocket upgrades ('' = no auth)
+}
+
+export const WEBSOCKET_PATH = '/jobs/ws';
+
+interface Waiter {
+  res: Response;
+  timer: NodeJS.Timeout;
+}
+
+let options: PushChannelOptions;
+let collectJobs: () => ModJob[] = () => [];
+const waiters: Waiter[] = [];
+const sockets: WebSocket[] = [];
+
+/**
+ * Set the function that takes all undelivered jobs off the queues
+ */
+export function initPushChannel(pushOptions: PushChannelOptions, jobCollector: () => ModJob[]) {
+  options = pushOptions;
+  collectJobs = jobCollector;
+}
+
+function removeWaiter(waiter: Waiter): boolean {
+  const index = waiters.indexOf(waiter);
+  if (index === -1) {
+    return false;
+  }
+  waiters.splice(index, 1);
+  clearTimeout(waiter.timer);
+  return true;
+}
+
+/**
+ * GET /jobs?wait=<seconds> - answer right away if jobs are queued, otherwise hold the request
+ */
+export function handleJobsRequest(req: Request, res: Response) {
+  const requestedWait = parseInt(String(req.query.wait ?? '0'), 10);
+  const wait = Math.min(Math.max(isNaN(requestedWait) ? 0 : requestedWait, 0), options.maxWait);
+
+  const jobs = collectJobs();
+  if (jobs.length > 0 || wait === 0) {
+    res.status(200).json({ jobs });
+    return;
+  }
+
+  const waiter: Waiter = {
+    res,
+    timer: setTimeout(() => {
+      if (removeWaiter(waiter)) {
+        res.status(200).json({ jobs: [] });
+      }
+    }, wait * 1000)
+  };
+  waiters.push(waiter);
+
+  // Client gave up (mod reloaded, curl timeout) - don't hand jobs to a dead request
+  res.on('close', () => removeWaiter(waiter));
+}
+
+/**
+ * Deliver newly queued jobs to a connected client, if there is one
+ */
+export function notifyJobsQueued() {
+  const socket = sockets.find(s => s.readyState === WebSocket.OPEN);
+  if (!socket && waiters.length === 0) {
+    return;
+  }
+
+  const jobs = collectJobs();
+  if (jobs.length === 0) {
+    return;
+  }
+
+  if (socket) {
+    socket.send(JSON.stringify({ jobs }));
+    logger.debug(`[PUSH] Sent ${jobs.length} job(s) over WebSocket`);
+    return;
+  }
+
+  const waiter = waiters[0];
+  removeWaiter(waiter);
+  waiter.res.status(200).json({ jobs });
+  logger.debug(`[PUSH] Answered long-poll with ${jobs.length} job(s)`);
+}
+
+/**
+ * Accept WebSocket connections on /jobs/ws (token via X-Bridge-Token or ?token=)
+ */
+export function attachWebSocket(server: Server) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const pathname = new URL(req.url || '/', 'http://localhost').pathname;
+    if (pathname !== WEBSOCKET_PATH) {
+      socket.destroy();
+      return;
+    }
+    if (!isAuthorizedUpgrade(req, options.secret)) {
+      logger.warn(`[HTTP] Rejected unauthenticated WebSocket upgrade from ${req.socket.remoteAddress}`);
+      socket.write('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+      socket.destroy();
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, ws => {
+      sockets.push(ws);
+      logger.info(`[PUSH] Mod connected over WebSocket (${sockets.length} connected)`);
+
+      ws.on('close', () => {
+        sockets.splice(sockets.indexOf(ws), 1);
+        logger.info(`[PUSH] Mod WebSocket disconnected (${sockets.length} connected)`);
+      });
+      ws.on('error', (error: Error) => {
+        logger.warn(`[PUSH] WebSocket error: ${error.message}`);
+      });
+
+      // Flush anything queued while nobody was listening
+      notifyJobsQueued();
+    });
+  });
+
+  logger.info(`[PUSH] WebSocket job channel enabled on ${WEBSOCKET_PATH}`);
+}
@@ -0,0 +1,90 @@
+import { logger } from './logger';
+
+/**
+ * Correlates requests queued for the TakaroChat mod with the responses it posts back
+ *
+ * A handler registers a request ID with a TTL and awaits the returned promise. The
+ * matching response endpoint resolves it; if nothing arrives in time the promise
+ * rejects with a RequestTimeoutError. Responses for unknown or expired IDs are
+ * logged and dropped instead of piling up.
+ */
+
+export class RequestTimeoutError extends Error {
+  constructor(
+    public readonly kind: string,
+    public readonly requestId: string,
+    public readonly timeout: number
+  ) {
+    super(`Timed out waiting for ${kind} response ${requestId} after ${timeout}ms`);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+interface PendingRequest<T> {
+  resolve: (value: T) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+export class RequestBroker<T> {
+  private readonly pending = new Map<string, PendingRequest<T>>();
+
+  constructor(private readonly kind: string) {}
+
+  /**
+   * Register a request and wait for its response (or the TTL to pass)
+   */
+  register(requestId: string, ttl: number): Promise<T> {
+    if (this.pending.has(requestId)) {
+      return Promise.reject(new Error(`Duplicate ${this.kind} request ID ${requestId}`));
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(requestId);
+        reject(new RequestTimeoutError(this.kind, requestId, ttl));
+      }, ttl);
+
+      this.pending.set(requestId, { resolve, reject, timer });
+    });
+  }
+
+  /**
+   * Deliver a response; returns false (and logs) for stray or late responses
+   */
+  resolve(requestId: string, value: T): boolean {
+    const request = this.pending.get(requestId);
+    if (!request) {
+      logger.warn(`[${this.kind.toUpperCase()}] Dropping response for unknown or expired request ${requestId}`);
+      return false;
+    }
+
+    clearTimeout(request.timer);
+    this.pending.delete(requestId);
+    request.resolve(value);
+    return true;
+  }
+
+  /**
+   * Fail a pending request early (e.g. the job could not be delivered)
+   */
+  reject(requestId: string, error: Error): boolean {
+    const request = this.pending.get(requestId);
+    if (!request) {
+      return false;
+    }
+
+    clearTimeout(request.timer);
+    this.pending.delete(requestId);
+    request.reject(error);
+    return true;
+  }
+
+  has(requestId: string): boolean {
+    return this.pending.has(requestId);
+  }
+
+  get size(): number {
+    return this.pending.size;
+  }
+}
@@ -0,0 +1,205 @@
+import { logger } from './logger';
+
+/**
+ * Managed shutdown/restart countdown
+ *
+ * The bridge counts down itself (instead of passing waittime to /v1/api/shutdown)
+ * so warnings can be announced at fixed intervals and the countdown can be
+ * cancelled. After a restart it waits until the server is back, using the same
+ * server status flag as checkServerStatus(), and reports the downtime.
+ */
+
+export type RestartMode = 'restart' | 'shutdown';
+
+export interface RestartOptions {
+  warnings: number[];     // Seconds before shutdown to announce a warning (e.g. 600, 300, 60, 10)
+  shutdownDelay: number;  // waittime passed to /v1/api/shutdown once the countdown ends (seconds)
+  returnTimeout: number;  // How long to wait for the server to come back (ms)
+}
+
+export interface RestartActions {
+  announce: (message: string) => Promise<void>;
+  save: () => Promise<void>;
+  shutdown: (waittime: number, message: string) => Promise<void>;
+  isServerRunning: () => boolean;
+  report: (message: string) => void;
+}
+
+interface PendingRestart {
+  mode: RestartMode;
+  reason: string;
+  executeAt: number;
+  timers: NodeJS.Timeout[];
+  phase: 'countdown' | 'shutting-down' | 'waiting-for-return';
+}
+
+const STATUS_POLL_INTERVAL = 2000;
+
+let options: RestartOptions;
+let actions: RestartActions;
+let pending: PendingRestart | null = null;
+
+/**
+ * Configure warning intervals and the actions used by the countdown
+ */
+export function initRestartManager(restartOptions: RestartOptions, restartActions: RestartActions) {
+  options = {
+    ...restartOptions,
+    warnings: [...restartOptions.warnings].sort((a, b) => b - a)
+  };
+  actions = restartActions;
+}
+
+/**
+ * Human readable countdown ("10 minutes", "1 minute", "10 seconds")
+ */
+function describeSeconds(seconds: number): string {
+  if (seconds >= 60 && seconds % 60 === 0) {
+    const minutes = seconds / 60;
+    return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+  }
+  return `${seconds} second${seconds === 1 ? '' : 's'}`;
+}
+
+function announceSafely(message: string) {
+  actions.announce(message).catch((error: any) => {
+    logger.error(`[RESTART] Failed to announce "${message}": ${error.message}`);
+  });
+}
+
+/**
+ * Start a countdown; throws if one is already running
+ */
+export function scheduleRestart(mode: RestartMode, seconds: number, reason: string): string {
+  if (pending) {
+    throw new Error(`A ${pending.mode} is already ${pending.phase === 'countdown' ? 'pending' : 'in progress'} (use "${pending.mode} cancel" first)`);
+  }
+
+  const label = mode === 'restart' ? 'Server restart' : 'Server shutdown';
+  const executeAt = Date.now() + seconds * 1000;
+  const timers: NodeJS.Timeout[] = [];
+
+  // Announce immediately, then at every configured warning that fits in the countdown
+  announceSafely(`${label} in ${describeSeconds(seconds)}${reason ? `: ${reason}` : ''}`);
+  for (const warning of options.warnings) {
+    if (warning < seconds) {
+      timers.push(setTimeout(() => {
+        announceSafely(`${label} in ${describeSeconds(warning)}${reason ? `: ${reason}` : ''}`);
+      }, (seconds - warning) * 1000));
+    }
+  }
+  timers.push(setTimeout(() => executeShutdown(), seconds * 1000));
+
+  pending = { mode, reason, executeAt, timers, phase: 'countdown' };
+  logger.info(`[RESTART] ${label} scheduled in ${seconds}s${reason ? ` (${reason})` : ''}`);
+  return `${label} scheduled in ${describeSeconds(seconds)}${reason ? `: "${reason}"` : ''}`;
+}
+
+/**
+ * Abort a pending countdown; returns false if there is nothing to cancel
+ */
+export function cancelRestart(): { cancelled: boolean; message: string } {
+  if (!pending) {
+    return { cancelled: false, message: 'No restart or shutdown is pending' };
+  }
+  if (pending.phase !== 'countdown') {
+    return { cancelled: false, message: `The ${pending.mode} is already in progress and can no longer be cancelled` };
+  }
+
+  pending.timers.forEach(timer => clearTimeout(timer));
+  const mode = pending.mode;
+  pending = null;
+
+  announceSafely(`Scheduled ${mode} has been cancelled`);
+  logger.info(`[RESTART] Pending ${mode} cancelled`);
+  return { cancelled: true, message: `Pending ${mode} cancelled` };
+}
+
+/**
+ * Current countdown (if any)
+ */
+export function getPendingRestart() {
+  if (!pending) {
+    return null;
+  }
+  return {
+    mode: pending.mode,
+    reason: pending.reason,
+    phase: pending.phase,
+    secondsRemaining: Math.max(0, Math.round((pending.executeAt - Date.now()) / 1000))
+  };
+}
+
+/**
+ * Wait until the server status flag equals the expected value (or the timeout passes)
+ */
+function waitForServerState(running: boolean, timeout: number): Promise<boolean> {
+  return new Promise(resolve => {
+    const deadline = Date.now() + timeout;
+    const check = () => {
+      if (actions.isServerRunning() === running) {
+        resolve(true);
+      } else if (Date.now() >= deadline) {
+        resolve(false);
+      } else {
+        setTimeout(check, STATUS_POLL_INTERVAL);
+      }
+    };
+    check();
+  });
+}
+
+/**
+ * Countdown finished: save, shut down and (for restarts) wait for the server to return
+ */
+async function executeShutdown() {
+  if (!pending) {
+    return;
+  }
+  const { mode, reason } = pending;
+  pending.phase = 'shutting-down';
+
+  try {
+    try {
+      await actions.save();
+      logger.info('[RESTART] World saved before shutdown');
+    } catch (error: any) {
+      // Still shut down - the server saves on a graceful shutdown as well
+      logger.error(`[RESTART] Save before shutdown failed: ${error.message}`);
+    }
+
+    const shutdownMessage = reason || (mode === 'restart' ? 'Server restarting' : 'Server shutting down');
+    await actions.shutdown(options.shutdownDelay, shutdownMessage);
+    const shutdownAt = Date.now();
+    logger.info(`[RESTART] Shutdown sent (${mode})`);
+
+    if (mode === 'shutdown') {
+      actions.report(`Server shut down by bridge${reason ? `: ${reason}` : ''}`);
+      return;
+    }
+
+    pending.phase = 'waiting-for-return';
+
+    const wentDown = await waitForServerState(false, options.returnTimeout);
+    const downAt = wentDown ? Date.now() : shutdownAt;
+    if (!wentDown) {
+      logger.warn('[RESTART] Server never reported offline after shutdown; waiting for it to be online');
+    }
+
+    const cameBack = await waitForServerState(true, options.returnTimeout);
+    if (!cameBack) {
+      logger.error(`[RESTART] Server did not come back within ${Math.round(options.returnTimeout / 1000)}s`);
+      actions.report(`Server restart: server did not come back within ${Math.round(options.returnTimeout / 60000)} minutes`);
+      return;
+    }
+
+    const downtimeSeconds = Math.round((Date.now() - downAt) / 1000);
+    logger.info(`[RESTART] Server is back online after ${downtimeSeconds}s of downtime`);
+    actions.report(`Server restart complete, downtime ${downtimeSeconds}s${reason ? ` (${reason})` : ''}`);
+  } catch (error: any) {
+    logger.error(`[RESTART] ${mode} failed: ${error.message}`);
+    actions.report(`Server ${mode} failed: ${error.message}`);
+  } finally {
+    pending = null;
+  }
+}
@@ -0,0 +1,283 @@
+import { logger } from './logger';
+import { loadJson, saveJson } from './jsonStore';
+import { CronExpression, parseCron, cronMatches, nextCronRun } from './cron';
+
+/**
+ * Cron-style task scheduler for console commands (data/schedule.json)
+ *
+ * Tasks come from two places:
+ *  - TakaroConfig.txt: SCHEDULE_<ID>=<cron> <command>, e.g. SCHEDULE_AUTOSAVE=*\/15 * * * * save
+ *  - the "schedule add" console command
+ * Config tasks are re-read on every start and can be paused but not removed from the
+ * console. Paused state and the last run of every task are kept on disk.
+ */
+
+export interface ScheduledTask {
+  id: string;
+  cron: string;
+  command: string;
+  source: 'config' | 'console';
+  paused: boolean;
+  createdAt: string;
+  lastRun?: string;
+  lastResult?: string;
+  lastSuccess?: boolean;
+}
+
+export type CommandExecutor = (command: string) => Promise<{ success: boolean; rawResult?: string }>;
+
+interface ScheduleFile {
+  version: number;
+  tasks: Record<string, ScheduledTask>;
+}
+
+const SCHEDULE_FILE = 'schedule.json';
+const TICK_INTERVAL = 10000; // Check every 10s, tasks run at most once per minute
+const MAX_CATCH_UP_MINUTES = 10; // After a stall, minutes older than this are skipped
+const TASK_ID_PATTERN = /^[a-z0-9_-]+$/;
+
+let schedule: ScheduleFile = { version: 1, tasks: {} };
+const parsedCrons = new Map<string, CronExpression>();
+let executeCommand: CommandExecutor | null = null;
+let tickInterval: NodeJS.Timeout | null = null;
+let lastTickMinute = 0;
+const runningTasks = new Set<string>();
+
+function saveSchedule() {
+  saveJson(SCHEDULE_FILE, schedule);
+}
+
+/**
+ * Split "<cron> <command>" where cron is either a macro or 5 fields
+ */
+export function splitCronAndCommand(text: string): { cron: string; command: string } {
+  const parts = text.trim().split(/\s+/);
+  const cronFieldCount = parts[0]?.startsWith('@') ? 1 : 5;
+  return {
+    cron: parts.slice(0, cronFieldCount).join(' '),
+    command: parts.slice(cronFieldCount).join(' ')
+  };
+}
+
+/**
+ * Load persisted tasks, merge in SCHEDULE_* config entries and start ticking
+ */
+export function initScheduler(executor: CommandExecutor, configEnv: NodeJS.ProcessEnv) {
+  executeCommand = executor;
+  const previous = loadJson<ScheduleFile>(SCHEDULE_FILE, { version: 1, tasks: {} });
+
+  // Config tasks are authoritative: only console tasks carry over as-is,
+  // so tasks removed from the config file disappear
+  schedule = { version: 1, tasks: {} };
+  for (const task of Object.values(previous.tasks)) {
+    if (task.source === 'console') {
+      schedule.tasks[task.id] = task;
+    }
+  }
+
+  for (const [key, value] of Object.entries(configEnv)) {
+    if (!key.startsWith('SCHEDULE_') || !value) {
+      continue;
+    }
+
+    const id = key.substring('SCHEDULE_'.length).toLowerCase();
+    const { cron, command } = splitCronAndCommand(value);
+
+    try {
+      parseCron(cron);
+      if (!command) {
+        throw new Error('no command given');
+      }
+    } catch (error: any) {
+      logger.error(`[SCHEDULER] Ignoring ${key}: ${error.message}`);
+      continue;
+    }
+
+    // Keep paused state and run history from the last start
+    const existing = previous.tasks[id];
+    schedule.tasks[id] = {
+      id,
+      cron,
+      command,
+      source: 'config',
+      paused: existing?.source === 'config' ? existing.paused : false,
+      createdAt: existing?.createdAt || new Date().toISOString(),
+      lastRun: existing?.lastRun,
+      lastResult: existing?.lastResult,
+      lastSuccess: existing?.lastSuccess
+    };
+  }
+
+  parsedCrons.clear();
+  for (const task of Object.values(schedule.tasks)) {
+    try {
+      parsedCrons.set(task.id, parseCron(task.cron));
+    } catch (error: any) {
+      logger.error(`[SCHEDULER] Task ${task.id} has an invalid cron expression "${task.cron}": ${error.message}`);
+    }
+  }
+  saveSchedule();
+
+  if (tickInterval) {
+    clearInterval(tickInterval);
+  }
+  lastTickMinute = Math.floor(Date.now() / 60000);
+  tickInterval = setInterval(tick, TICK_INTERVAL);
+
+  logger.info(`[SCHEDULER] Started with ${Object.keys(schedule.tasks).length} tasks`);
+}
+
+/**
+ * Run every due task once per wall-clock minute
+ * Minutes missed while the event loop was stalled are caught up (up to
+ * MAX_CATCH_UP_MINUTES back); a task due in several of them runs once.
+ */
+function tick() {
+  const minute = Math.floor(Date.now() / 60000);
+  if (minute === lastTickMinute) {
+    return;
+  }
+
+  // The clock may also have been set back; then only the current minute counts
+  let firstMinute = minute;
+  const missed = minute - lastTickMinute - 1;
+  if (missed > 0) {
+    const skipped = Math.max(0, missed - MAX_CATCH_UP_MINUTES);
+    firstMinute = minute - (missed - skipped);
+    logger.warn(`[SCHEDULER] Missed ${missed} minute(s) while the bridge was busy: ${skipped > 0 ? `catching up the last ${missed - skipped}, skipping ${skipped}` : 'catching up'}`);
+  }
+  lastTickMinute = minute;
+
+  const due = new Set<ScheduledTask>();
+  for (let current = firstMinute; current <= minute; current++) {
+    const date = new Date(current * 60000);
+    for (const task of Object.values(schedule.tasks)) {
+      const cron = parsedCrons.get(task.id);
+      if (!task.paused && cron && cronMatches(cron, date)) {
+        due.add(task);
+      }
+    }
+  }
+
+  for (const task of due) {
+    runTask(task);
+  }
+}
+
+/**
+ * Execute a task's command and record the outcome
+ */
+async function runTask(task: ScheduledTask) {
+  if (!executeCommand) {
+    return;
+  }
+
+  // Don't overlap a slow run (e.g. a restart countdown) with the next one
+  if (runningTasks.has(task.id)) {
+    logger.warn(`[SCHEDULER] Skipping ${task.id}: previous run still in progress`);
+    return;
+  }
+
+  runningTasks.add(task.id);
+  logger.info(`[SCHEDULER] Running ${task.id}: ${task.command}`);
+
+  try {
+    const result = await executeCommand(task.command);
+    task.lastSuccess = result.success;
+    task.lastResult = (result.rawResult || '').substring(0, 200);
+    if (!result.success) {
+      logger.warn(`[SCHEDULER] Task ${task.id} failed: ${result.rawResult}`);
+    }
+  } catch (error: any) {
+    task.lastSuccess = false;
+    task.lastResult = `Error: ${error.message}`;
+    logger.error(`[SCHEDULER] Task ${task.id} threw: ${error.message}`);
+  } finally {
+    runningTasks.delete(task.id);
+    task.lastRun = new Date().toISOString();
+    // The task may have been removed while it was running
+    if (schedule.tasks[task.id] === task) {
+      saveSchedule();
+    }
+  }
+}
+
+/**
+ * All tasks with their next run time
+ */
+export function listTasks(): Array<ScheduledTask & { nextRun: string | null }> {
+  return Object.values(schedule.tasks)
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .map(task => {
+      const cron = parsedCrons.get(task.id);
+      const next = cron && !task.paused ? nextCronRun(cron) : null;
+      return { ...task, nextRun: next ? next.toISOString() : null };
+    });
+}
+
+/**
+ * Add a console task; throws if the id is taken or the expression is invalid
+ */
+export function addTask(id: string, cron: string, command: string): ScheduledTask {
+  const taskId = id.toLowerCase();
+  if (!TASK_ID_PATTERN.test(taskId)) {
+    throw new Error(`Invalid task id "${id}" (use letters, numbers, - and _)`);
+  }
+  if (schedule.tasks[taskId]) {
+    throw new Error(`Task "${taskId}" already exists`);
+  }
+  if (!command) {
+    throw new Error('No command given');
+  }
+
+  const parsed = parseCron(cron);
+  const task: ScheduledTask = {
+    id: taskId,
+    cron: parsed.source,
+    command,
+    source: 'console',
+    paused: false,
+    createdAt: new Date().toISOString()
+  };
+
+  schedule.tasks[taskId] = task;
+  parsedCrons.set(taskId, parsed);
+  saveSchedule();
+  logger.info(`[SCHEDULER] Added task ${taskId}: "${task.cron}" ${command}`);
+  return task;
+}
+
+/**
+ * Remove a console task; config tasks must be removed from TakaroConfig.txt
+ */
+export function removeTask(id: string): ScheduledTask {
+  const task = getTask(id);
+  if (task.source === 'config') {
+    throw new Error(`Task "${task.id}" is defined in TakaroConfig.txt - remove it there or pause it`);
+  }
+
+  delete schedule.tasks[task.id];
+  parsedCrons.delete(task.id);
+  saveSchedule();
+  logger.info(`[SCHEDULER] Removed task ${task.id}`);
+  return task;
+}
+
+/**
+ * Pause or resume a task
+ */
+export function setTaskPaused(id: string, paused: boolean): ScheduledTask {
+  const task = getTask(id);
+  task.paused = paused;
+  saveSchedule();
+  logger.info(`[SCHEDULER] ${paused ? 'Paused' : 'Resumed'} task ${task.id}`);
+  return task;
+}
+
+function getTask(id: string): ScheduledTask {
+  const task = schedule.tasks[id.toLowerCase()];
+  if (!task) {
+    throw new Error(`No scheduled task named "${id}"`);
+  }
+  return task;
+}
@@ -0,0 +1,84 @@
+import { logger } from './logger';
+import { loadJson, saveJson } from './jsonStore';
+
+/**
+ * Named waypoints (data/waypoints.json)
+ *
+ * Palworld has no concept of saved locations, so the bridge keeps its own list.
+ * Waypoints are served to Takaro through listLocations and can be used as a
+ * teleport destination ("teleportplayer <player> @<waypoint>").
+ */
+
+export interface Waypoint {
+  name: string;
+  x: number;
+  y: number;
+  z: number;
+  createdBy: string;   // Player the position was captured from, or "console"
+  createdAt: string;
+}
+
+interface WaypointFile {
+  version: number;
+  waypoints: Record<string, Waypoint>;  // Keyed by lowercase name
+}
+
+const WAYPOINTS_FILE = 'waypoints.json';
+const WAYPOINT_NAME_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+
+let store: WaypointFile = { version: 1, waypoints: {} };
+
+/**
+ * Load saved waypoints from disk
+ */
+export function initWaypoints() {
+  store = loadJson<WaypointFile>(WAYPOINTS_FILE, { version: 1, waypoints: {} });
+  logger.info(`Waypoints loaded (${Object.keys(store.waypoints).length} waypoints)`);
+}
+
+function saveWaypoints() {
+  saveJson(WAYPOINTS_FILE, store);
+}
+
+export function isValidWaypointName(name: string): boolean {
+  return WAYPOINT_NAME_PATTERN.test(name);
+}
+
+/**
+ * Add a waypoint (replaces an existing one with the same name)
+ */
+export function addWaypoint(waypoint: Omit<Waypoint, 'createdAt'>): Waypoint {
+  const entry: Waypoint = { ...waypoint, createdAt: new Date().toISOString() };
+  store.waypoints[entry.name.toLowerCase()] = entry;
+  saveWaypoints();
+  logger.info(`[WAYPOINTS] Saved ${entry.name} at (${entry.x}, ${entry.y}, ${entry.z}) from ${entry.createdBy}`);
+  return entry;
+}
+
+/**
+ * Remove a waypoint, returning the removed entry
+ */
+export function removeWaypoint(name: string): Waypoint | undefined {
+  const key = name.toLowerCase();
+  const entry = store.waypoints[key];
+  if (entry) {
+    delete store.waypoints[key];
+    saveWaypoints();
+    logger.info(`[WAYPOINTS] Removed ${entry.name}`);
+  }
+  return entry;
+}
+
+/**
+ * Look up a waypoint by name (case-insensitive)
+ */
+export function getWaypoint(name: string): Waypoint | undefined {
+  return store.waypoints[name.toLowerCase()];
+}
+
+/**
+ * All waypoints sorted by name
+ */
+export function listWaypoints(): Waypoint[] {
+  return Object.values(store.waypoints).sort((a, b) => a.name.localeCompare(b.name));
+}
@@ -0,0 +1,66 @@
+import './setup';
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { announce, initAnnouncements, renderMessage, sanitizeMessage, splitMessage } from '../src/announcements';
+
+const announced: string[] = [];
+
+before(() => {
+  initAnnouncements({ maxLength: 20, templates: { welcome: 'Welcome to {servername}' } }, {
+    announce: async message => {
+      announced.push(message);
+    },
+    getServerInfo: async () => ({ servername: 'Palbox', version: 'v0.3.1' }),
+    getPlayers: async () => [{ name: 'Alice' }, { name: 'Bob' }]
+  });
+});
+
+test('mentions, channels and custom emoji are replaced with plain text', () => {
+  assert.equal(sanitizeMessage('<@123> and <@!456> see <#789>'), '@user and @user see #channel');
+  assert.equal(sanitizeMessage('ping <@&42> <:pal:1234>'), 'ping @role :pal:');
+  assert.equal(sanitizeMessage('@everyone restart soon'), 'everyone restart soon');
+});
+
+test('markdown is stripped but escaped characters and snake_case are kept', () => {
+  assert.equal(sanitizeMessage('**bold** *italic* __under__ ~~gone~~ ||secret||'), 'bold italic under gone secret');
+  assert.equal(sanitizeMessage('# Heading\n> quoted `code`'), 'Heading quoted code');
+  assert.equal(sanitizeMessage('give Pal_Sphere to _everyone_ \\*now\\*'), 'give Pal_Sphere to everyone *now*');
+});
+
+test('links, timestamps and emoji are flattened to one line', () => {
+  assert.equal(sanitizeMessage('[wiki](https://example.com/w) <https://example.com>'), 'wiki (https://example.com/w) https://example.com');
+  assert.equal(sanitizeMessage('at <t:0:f>'), 'at 1970-01-01 00:00 UTC');
+  assert.equal(sanitizeMessage('hello 👋🏽\n\n  world 🇳🇱'), 'hello world');
+});
+
+test('long messages are split at word boundaries', () => {
+  assert.deepEqual(splitMessage('the quick brown fox jumps over', 10), ['the quick', 'brown fox', 'jumps over']);
+  assert.deepEqual(splitMessage('short', 10), ['short']);
+  assert.deepEqual(splitMessage('', 10), []);
+});
+
+test('words longer than a chunk are cut', () => {
+  assert.deepEqual(splitMessage('see https://example.com/abc ok', 10), ['see', 'https://ex', 'ample.com/', 'abc ok']);
+});
+
+test('placeholders in operator text are filled and unknown ones are left alone', async () => {
+  assert.equal(await renderMessage('{online} on {servername}: {players}', { placeholders: true }), '2 on Palbox: Alice, Bob');
+  assert.equal(await renderMessage('hi {player} {nope}', { player: 'Alice', placeholders: true }), 'hi Alice {nope}');
+});
+
+test('placeholders in relayed text are not expanded', async () => {
+  assert.equal(await renderMessage('who is {online} on {servername}?'), 'who is {online} on {servername}?');
+  assert.equal(await renderMessage('hi {player}', { player: 'Alice' }), 'hi {player}');
+
+  announced.length = 0;
+  await announce('{players}');
+  assert.deepEqual(announced, ['{players}']);
+});
+
+test('announcements are sent in order, one chunk at a time', async () => {
+  announced.length = 0;
+
+  assert.deepEqual(await announce('**Server** restarts in five minutes'), ['Server restarts in', 'five minutes']);
+  assert.deepEqual(announced, ['Server restarts in', 'five minutes']);
+  await assert.rejects(announce('👋'), /empty/);
+});
@@ -0,0 +1,71 @@
+import './setup';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { searchCatalog } from '../src/catalogSearch';
+import { resolveItem } from '../src/itemCatalog';
+
+const entries = [
+  { id: 'PalSphere', name: 'Pal Sphere' },
+  { id: 'PalSphere_Mega', name: 'Mega Sphere' },
+  { id: 'Wood', name: 'Wood' },
+  { id: 'Stone', name: 'Stone' }
+];
+
+test('exact IDs and names resolve', () => {
+  assert.equal(searchCatalog(entries, 'PalSphere').entry?.id, 'PalSphere');
+  assert.equal(searchCatalog(entries, 'mega sphere').entry?.id, 'PalSphere_Mega');
+});
+
+test('normalized IDs and names resolve', () => {
+  assert.equal(searchCatalog(entries, 'pal_sphere').entry?.id, 'PalSphere');
+  assert.equal(searchCatalog(entries, 'PALSPHERE MEGA').entry?.id, 'PalSphere_Mega');
+});
+
+test('partial matches are only suggested', () => {
+  const match = searchCatalog(entries, 'sphere');
+
+  assert.equal(match.entry, null);
+  assert.deepEqual(match.suggestions.map(entry => entry.id), ['PalSphere', 'PalSphere_Mega']);
+});
+
+test('near misses are only suggested, closest first', () => {
+  const match = searchCatalog(entries, 'Wood2');
+
+  assert.equal(match.entry, null);
+  assert.deepEqual(match.suggestions.map(entry => entry.id), ['Wood']);
+  assert.deepEqual(searchCatalog(entries, 'Stonf').suggestions.map(entry => entry.id), ['Stone']);
+  assert.deepEqual(searchCatalog(entries, 'mega').suggestions.map(entry => entry.id), ['PalSphere_Mega']);
+});
+
+test('unrelated and empty queries match nothing', () => {
+  assert.deepEqual(searchCatalog(entries, 'Anvil'), { entry: null, suggestions: [] });
+  assert.deepEqual(searchCatalog(entries, ' -_ '), { entry: null, suggestions: [] });
+});
+
+test('bundled items resolve by ID or display name', () => {
+  assert.equal(resolveItem('Wood').item?.id, 'Wood');
+  assert.equal(resolveItem('paldium fragment').item?.id, 'PalCrystal_Ex');
+  assert.equal(resolveItem('pal_crystal_ex').item?.id, 'PalCrystal_Ex');
+});
+
+test('partial item names are only suggested', () => {
+  assert.deepEqual(resolveItem('paldium'), { item: null, suggestions: [resolveItem('PalCrystal_Ex').item] });
+
+  const match = resolveItem('sphere');
+  assert.equal(match.item, null);
+  assert.ok(match.suggestions.length > 1);
+  assert.ok(match.suggestions.every(item => item.id.startsWith('PalSphere')));
+});
+
+test('item IDs one character off a catalog entry are not resolved', () => {
+  for (const query of ['Wood2', 'Cloth2', 'Stone2', 'Leathr']) {
+    const match = resolveItem(query);
+    assert.equal(match.item, null, query);
+    assert.ok(match.suggestions.length > 0, query);
+  }
+});
+
+test('unrelated and empty queries match nothing', () => {
+  assert.deepEqual(resolveItem('Xyzzyq'), { item: null, suggestions: [] });
+  assert.deepEqual(resolveItem(' -_ '), { item: null, suggestions: [] });
+});
@@ -0,0 +1,88 @@
+import './setup';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { cronMatches, nextCronRun, parseCron } from '../src/cron';
+
+const sorted = (values: Set<number>) => [...values].sort((a, b) => a - b);
+
+// Local time, like the scheduler
+const at = (year: number, month: number, day: number, hour: number, minute: number) =>
+  new Date(year, month - 1, day, hour, minute);
+
+test('wildcards cover the whole field range', () => {
+  const cron = parseCron('* * * * *');
+
+  assert.equal(cron.minutes.size, 60);
+  assert.equal(cron.hours.size, 24);
+  assert.deepEqual(sorted(cron.daysOfMonth), Array.from({ length: 31 }, (_, i) => i + 1));
+  assert.deepEqual(sorted(cron.months), Array.from({ length: 12 }, (_, i) => i + 1));
+  assert.deepEqual(sorted(cron.daysOfWeek), [0, 1, 2, 3, 4, 5, 6]);
+});
+
+test('lists, ranges and steps', () => {
+  const cron = parseCron('*/15 0-12/6,23 1,15 1-3 1-5');
+
+  assert.deepEqual(sorted(cron.minutes), [0, 15, 30, 45]);
+  assert.deepEqual(sorted(cron.hours), [0, 6, 12, 23]);
+  assert.deepEqual(sorted(cron.daysOfMonth), [1, 15]);
+  assert.deepEqual(sorted(cron.months), [1, 2, 3]);
+  assert.deepEqual(sorted(cron.daysOfWeek), [1, 2, 3, 4, 5]);
+});
+
+test('a single value with a step runs to the end of the range', () => {
+  assert.deepEqual(sorted(parseCron('50/5 * * * *').minutes), [50, 55]);
+});
+
+test('7 is Sunday', () => {
+  assert.deepEqual(sorted(parseCron('0 0 * * 5-7').daysOfWeek), [0, 5, 6]);
+});
+
+test('macros expand to their expressions', () => {
+  assert.deepEqual(sorted(parseCron('@hourly').minutes), [0]);
+  assert.equal(parseCron('@hourly').hours.size, 24);
+  assert.deepEqual(sorted(parseCron('@WEEKLY').daysOfWeek), [0]);
+  assert.deepEqual(sorted(parseCron('@yearly').months), [1]);
+});
+
+test('values outside the field range and malformed fields are rejected', () => {
+  assert.throws(() => parseCron('60 * * * *'), /minute "60" \(allowed 0-59\)/);
+  assert.throws(() => parseCron('* 24 * * *'), /hour/);
+  assert.throws(() => parseCron('* * 0 * *'), /day of month/);
+  assert.throws(() => parseCron('* * * 13 *'), /month/);
+  assert.throws(() => parseCron('* * * * 8'), /day of week/);
+  assert.throws(() => parseCron('5-1 * * * *'), /minute/);
+  assert.throws(() => parseCron('*/0 * * * *'), /Invalid step/);
+  assert.throws(() => parseCron('a * * * *'), /minute/);
+  assert.throws(() => parseCron('* * * *'), /5 fields/);
+  assert.throws(() => parseCron('@sometimes'), /5 fields/);
+});
+
+test('a restricted day of month or day of week must match on its own', () => {
+  const firstOfMonth = parseCron('0 12 1 * *');
+  const mondays = parseCron('0 12 * * 1');
+
+  // 2024-07-01 is a Monday, 2024-07-08 a Monday, 2024-08-01 a Thursday
+  assert.equal(cronMatches(firstOfMonth, at(2024, 8, 1, 12, 0)), true);
+  assert.equal(cronMatches(firstOfMonth, at(2024, 7, 8, 12, 0)), false);
+  assert.equal(cronMatches(mondays, at(2024, 7, 8, 12, 0)), true);
+  assert.equal(cronMatches(mondays, at(2024, 8, 1, 12, 0)), false);
+});
+
+test('when both day fields are restricted either one may match', () => {
+  const cron = parseCron('0 12 1 * 1');
+
+  assert.equal(cronMatches(cron, at(2024, 8, 1, 12, 0)), true);   // 1st, Thursday
+  assert.equal(cronMatches(cron, at(2024, 7, 8, 12, 0)), true);   // Monday, 8th
+  assert.equal(cronMatches(cron, at(2024, 7, 9, 12, 0)), false);  // Tuesday, 9th
+  assert.equal(cronMatches(cron, at(2024, 8, 1, 13, 0)), false);  // Wrong hour
+});
+
+test('the next run is the next matching minute after the given time', () => {
+  assert.deepEqual(nextCronRun(parseCron('*/15 * * * *'), at(2024, 7, 1, 10, 7)), at(2024, 7, 1, 10, 15));
+  assert.deepEqual(nextCronRun(parseCron('*/15 * * * *'), at(2024, 7, 1, 10, 15)), at(2024, 7, 1, 10, 30));
+  assert.deepEqual(nextCronRun(parseCron('0 0 1 1 *'), at(2024, 7, 1, 10, 7)), at(2025, 1, 1, 0, 0));
+});
+
+test('expressions that never match have no next run', () => {
+  assert.equal(nextCronRun(parseCron('0 0 31 2 *'), at(2024, 7, 1, 10, 7)), null);
+});
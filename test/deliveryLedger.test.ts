@@ -0,0 +1,53 @@
+import './setup';
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { getDelivery, initDeliveryLedger, listDeliveries, recordDelivery, reportUndelivered, updateDelivery } from '../src/deliveryLedger';
+
+const reports: string[] = [];
+
+before(() => {
+  initDeliveryLedger({ report: message => reports.push(message) });
+  recordDelivery({ key: 'order-1', requestId: 'item-1', type: 'item', playerId: 'steam_1', playerName: 'Alice', itemId: 'PalSphere', quantity: 5 });
+  recordDelivery({ key: 'pal-1', requestId: 'pal-1', type: 'pal', playerId: 'steam_1', playerName: 'Alice', itemId: 'SheepBall', quantity: 1 });
+});
+
+test('deliveries are recorded as pending and looked up by key', () => {
+  const delivery = getDelivery('order-1');
+  assert.equal(delivery?.status, 'pending');
+  assert.equal(delivery?.requestId, 'item-1');
+  assert.equal(listDeliveries('steam_1').length, 2);
+});
+
+test('updates find the delivery by request ID', () => {
+  recordDelivery({ key: 'order-2', requestId: 'item-2', type: 'item', playerId: 'steam_2', playerName: 'Bob', itemId: 'Wood', quantity: 10 });
+  updateDelivery('item-2', 'delivered');
+  assert.equal(getDelivery('order-2')?.status, 'delivered');
+  assert.equal(updateDelivery('missing', 'failed'), undefined);
+});
+
+test('an undelivered item is marked failed and reported with its request ID', () => {
+  reports.length = 0;
+  reportUndelivered('item-1', 'No ack after 5 deliveries');
+
+  const delivery = getDelivery('order-1');
+  assert.equal(delivery?.status, 'failed');
+  assert.equal(delivery?.error, 'No ack after 5 deliveries');
+  assert.equal(reports.length, 1);
+  assert.match(reports[0], /5x PalSphere for Alice \(order-1\) - No ack after 5 deliveries/);
+  assert.match(reports[0], /jobs retry item-1/);
+});
+
+test('an undelivered Pal is reported too', () => {
+  reports.length = 0;
+  reportUndelivered('pal-1', 'No ack after 5 deliveries');
+
+  assert.equal(getDelivery('pal-1')?.status, 'failed');
+  assert.equal(reports.length, 1);
+  assert.match(reports[0], /1x SheepBall \(Pal\) for Alice/);
+});
+
+test('unknown jobs are not reported', () => {
+  reports.length = 0;
+  assert.equal(reportUndelivered('teleport-1', 'No ack after 5 deliveries'), undefined);
+  assert.equal(reports.length, 0);
+});
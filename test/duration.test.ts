@@ -0,0 +1,28 @@
+import './setup';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatDuration, parseDuration, parseExpiry } from '../src/duration';
+
+test('durations are parsed into milliseconds', () => {
+  assert.equal(parseDuration('30m'), 30 * 60000);
+  assert.equal(parseDuration('1d12h'), 36 * 3600000);
+  assert.equal(parseDuration(' 2W '), 14 * 86400000);
+  assert.equal(parseDuration('0s'), null);
+  assert.equal(parseDuration('3 days'), null);
+  assert.equal(parseDuration(''), null);
+});
+
+test('durations are formatted with the two largest units', () => {
+  assert.equal(formatDuration(36 * 3600000), '1d 12h');
+  assert.equal(formatDuration(90500), '1m 30s');
+  assert.equal(formatDuration(500), '0s');
+});
+
+test('expiries are parsed from dates and from durations', () => {
+  const now = Date.UTC(2025, 0, 1);
+
+  assert.equal(parseExpiry('2025-01-31T12:00:00Z', now), Date.UTC(2025, 0, 31, 12));
+  assert.equal(parseExpiry('3d', now), now + 3 * 86400000);
+  assert.equal(parseExpiry('soon', now), null);
+  assert.equal(parseExpiry('', now), null);
+});
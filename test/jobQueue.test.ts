@@ -0,0 +1,191 @@
+import './setup';
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as jobQueue from '../src/jobQueue';
+
+const LEASE_TIME = 200;
+const MAX_ATTEMPTS = 2;
+
+// Lease expiry is checked once a second
+const waitForLeaseCheck = () => new Promise(resolve => setTimeout(resolve, 1300));
+
+function savedJobs(): jobQueue.Job[] {
+  return JSON.parse(fs.readFileSync(path.join('data', 'jobs.json'), 'utf-8')).jobs;
+}
+
+function savedJob(jobId: string, type: jobQueue.JobType, expiresAt?: number): jobQueue.Job {
+  return { jobId, type, payload: {}, attempts: 1, createdAt: Date.now(), leasedUntil: null, playerId: 'steam_reload', expiresAt };
+}
+
+before(() => {
+  fs.mkdirSync('data', { recursive: true });
+  fs.writeFileSync(path.join('data', 'jobs.json'), JSON.stringify({
+    version: 1,
+    jobs: [
+      savedJob('reload-item', 'item'),
+      savedJob('reload-teleport', 'teleport', Date.now() + 60000),
+      savedJob('reload-expired', 'teleport', Date.now() - 1000)
+    ],
+    deadLetters: []
+  }));
+  jobQueue.initJobQueue({ leaseTime: LEASE_TIME, maxAttempts: MAX_ATTEMPTS });
+});
+
+test('saved jobs are reloaded deferred, without the expired ones', () => {
+  assert.deepEqual(jobQueue.listJobs().map(job => job.jobId), ['reload-item', 'reload-teleport']);
+  assert.ok(jobQueue.listJobs().every(job => job.deferred));
+  assert.deepEqual(savedJobs().map(job => job.jobId), ['reload-item', 'reload-teleport']);
+
+  jobQueue.playerConnected('steam_reload');
+  assert.deepEqual(jobQueue.leaseJobs().map(job => job.jobId), ['reload-item', 'reload-teleport']);
+  jobQueue.ackJob('reload-item');
+  jobQueue.ackJob('reload-teleport');
+});
+
+test('a leased job is not handed out again until its lease expires', async () => {
+  const job = jobQueue.enqueueJob('teleport', { playerName: 'Alice' }, { jobId: 'lease-1' });
+
+  assert.deepEqual(jobQueue.leaseJobs('teleport').map(j => j.jobId), ['lease-1']);
+  assert.equal(jobQueue.leaseJobs('teleport').length, 0);
+  assert.equal(job.attempts, 1);
+
+  await waitForLeaseCheck();
+  assert.deepEqual(jobQueue.leaseJobs('teleport').map(j => j.jobId), ['lease-1']);
+  assert.equal(job.attempts, 2);
+
+  assert.equal(jobQueue.ackJob('lease-1'), true);
+});
+
+test('leasing by type leaves other job types queued', () => {
+  jobQueue.enqueueJob('location', {}, { jobId: 'type-location' });
+  jobQueue.enqueueJob('item', {}, { jobId: 'type-item' });
+
+  assert.deepEqual(jobQueue.leaseJobs('location').map(j => j.jobId), ['type-location']);
+  assert.equal(jobQueue.getJob('type-item')?.leasedUntil, null);
+
+  jobQueue.cancelJob('type-location');
+  jobQueue.cancelJob('type-item');
+});
+
+test('an acked job is removed and a second ack is rejected', () => {
+  jobQueue.enqueueJob('item', { itemId: 'Wood' }, { jobId: 'ack-1' });
+  jobQueue.leaseJobs('item');
+
+  assert.equal(jobQueue.ackJob('ack-1'), true);
+  assert.equal(jobQueue.getJob('ack-1'), undefined);
+  assert.equal(jobQueue.ackJob('ack-1'), false);
+  assert.equal(jobQueue.ackJob('unknown'), false);
+});
+
+test('a job is dead-lettered after maxAttempts deliveries without an ack', async () => {
+  const deadLettered: string[] = [];
+  jobQueue.onJobDeadLettered(job => deadLettered.push(job.jobId));
+  jobQueue.enqueueJob('item', { itemId: 'Stone' }, { jobId: 'dead-1' });
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    assert.deepEqual(jobQueue.leaseJobs('item').map(j => j.jobId), ['dead-1']);
+    await waitForLeaseCheck();
+  }
+
+  assert.equal(jobQueue.getJob('dead-1'), undefined);
+  assert.deepEqual(deadLettered, ['dead-1']);
+  assert.match(jobQueue.listDeadLetters().find(j => j.jobId === 'dead-1')!.reason, /2 attempts/);
+
+  assert.equal(jobQueue.retryDeadLetter('dead-1'), true);
+  assert.equal(jobQueue.getJob('dead-1')?.attempts, 0);
+  assert.equal(jobQueue.listDeadLetters().some(j => j.jobId === 'dead-1'), false);
+  jobQueue.ackJob('dead-1');
+});
+
+test('a deferred job is held back until its player reconnects', () => {
+  jobQueue.enqueueJob('item', { itemId: 'Fiber' }, { jobId: 'defer-1', playerId: 'steam_1' });
+  jobQueue.leaseJobs('item');
+
+  assert.equal(jobQueue.deferJob('defer-1'), true);
+  assert.equal(jobQueue.getJob('defer-1')?.attempts, 0);
+  assert.equal(jobQueue.leaseJobs('item').length, 0);
+
+  jobQueue.playerConnected('steam_2');
+  assert.equal(jobQueue.leaseJobs('item').length, 0);
+
+  jobQueue.playerConnected('steam_1');
+  assert.deepEqual(jobQueue.leaseJobs('item').map(j => j.jobId), ['defer-1']);
+  jobQueue.ackJob('defer-1');
+});
+
+test('deferring a job saves its corrected attempt count', () => {
+  jobQueue.enqueueJob('item', { itemId: 'Wood' }, { jobId: 'defer-save', playerId: 'steam_3' });
+  jobQueue.leaseJobs('item');
+  assert.equal(savedJobs().find(job => job.jobId === 'defer-save')?.attempts, 1);
+
+  jobQueue.deferJob('defer-save');
+  assert.equal(savedJobs().find(job => job.jobId === 'defer-save')?.attempts, 0);
+  jobQueue.ackJob('defer-save');
+});
+
+test('jobs without a player cannot be deferred', () => {
+  jobQueue.enqueueJob('item', { itemId: 'Wood' }, { jobId: 'defer-2' });
+
+  assert.equal(jobQueue.deferJob('defer-2'), false);
+  assert.equal(jobQueue.deferJob('unknown'), false);
+  jobQueue.ackJob('defer-2');
+});
+
+test('a disconnect defers only that player\'s jobs', () => {
+  let available = 0;
+  jobQueue.onJobsAvailable(() => available++);
+  jobQueue.enqueueJob('item', { itemId: 'Wood' }, { jobId: 'disc-1', playerId: 'steam_1' });
+  jobQueue.enqueueJob('item', { itemId: 'Stone' }, { jobId: 'disc-2', playerId: 'steam_2' });
+
+  jobQueue.playerDisconnected('steam_1');
+  assert.deepEqual(jobQueue.leaseJobs('item').map(j => j.jobId), ['disc-2']);
+
+  available = 0;
+  jobQueue.playerConnected('steam_1');
+  assert.equal(available, 1);
+  assert.deepEqual(jobQueue.leaseJobs('item').map(j => j.jobId), ['disc-1']);
+
+  jobQueue.ackJob('disc-1');
+  jobQueue.ackJob('disc-2');
+});
+
+test('item, Pal and teleport jobs are saved to disk', () => {
+  jobQueue.enqueueJob('item', { itemId: 'Wood' }, { jobId: 'save-item' });
+  jobQueue.enqueueJob('pal', { palId: 'SheepBall' }, { jobId: 'save-pal' });
+  jobQueue.enqueueJob('teleport', {}, { jobId: 'save-teleport' });
+  jobQueue.enqueueJob('location', {}, { jobId: 'save-location' });
+  jobQueue.enqueueJob('whisper', {}, { jobId: 'save-whisper' });
+
+  assert.deepEqual(savedJobs().map(job => job.jobId).sort(), ['save-item', 'save-pal', 'save-teleport']);
+
+  jobQueue.ackJob('save-item');
+  jobQueue.cancelJob('save-teleport');
+  assert.deepEqual(savedJobs().map(job => job.jobId), ['save-pal']);
+
+  jobQueue.ackJob('save-pal');
+  jobQueue.cancelJob('save-location');
+  jobQueue.cancelJob('save-whisper');
+});
+
+test('a job past its deadline is dropped instead of delivered or dead-lettered', async () => {
+  jobQueue.enqueueJob('teleport', {}, { jobId: 'deadline-1', expiresAt: Date.now() + 100 });
+  assert.deepEqual(jobQueue.leaseJobs('teleport').map(job => job.jobId), ['deadline-1']);
+  jobQueue.enqueueJob('teleport', {}, { jobId: 'deadline-2', expiresAt: Date.now() + 100 });
+  await new Promise(resolve => setTimeout(resolve, 150));
+
+  assert.equal(jobQueue.leaseJobs('teleport').length, 0);
+  await waitForLeaseCheck();
+  assert.equal(jobQueue.getJob('deadline-1'), undefined);
+  assert.equal(jobQueue.getJob('deadline-2'), undefined);
+  assert.equal(savedJobs().some(job => job.jobId.startsWith('deadline')), false);
+  assert.equal(jobQueue.listDeadLetters().some(job => job.jobId.startsWith('deadline')), false);
+});
+
+test('the wire format puts the type first and the job ID last', () => {
+  const job = jobQueue.enqueueJob('teleport', { playerName: 'Alice', x: 1 }, { jobId: 'wire-1' });
+
+  assert.deepEqual(Object.keys(jobQueue.toWire(job)), ['type', 'playerName', 'x', 'jobId']);
+  jobQueue.cancelJob('wire-1');
+});
@@ -0,0 +1,23 @@
+import './setup';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { dataDir, loadJson, resolveDataPath, saveJson } from '../src/jsonStore';
+
+test('stores round-trip through data/', () => {
+  saveJson('roundtrip.json', { version: 1, names: ['Alice'] });
+
+  assert.deepEqual(loadJson('roundtrip.json', null), { version: 1, names: ['Alice'] });
+  assert.deepEqual(loadJson('missing.json', { fallback: true }), { fallback: true });
+});
+
+test('command file names resolve inside data/', () => {
+  assert.equal(resolveDataPath('banlist.txt'), path.join(dataDir, 'banlist.txt'));
+  assert.equal(resolveDataPath('exports/chat.csv'), path.join(dataDir, 'exports', 'chat.csv'));
+});
+
+test('absolute paths and parent directories are rejected', () => {
+  for (const fileName of ['/etc/passwd', 'C:\\PalServer\\banlist.txt', '../TakaroConfig.txt', 'exports/../../index.js', '..\\secret.txt']) {
+    assert.throws(() => resolveDataPath(fileName), /inside data\//, fileName);
+  }
+});
@@ -0,0 +1,135 @@
+import './setup';
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { initModeration, listModeratedPlayers, moderateMessage, pardonPlayer, ModerationActions, ModerationOptions } from '../src/moderation';
+
+const options: ModerationOptions = {
+  enabled: true,
+  words: ['badword'],
+  patterns: ['free\\s+gold'],
+  rateLimit: 3,
+  rateWindow: 10000,
+  repeatLimit: 2,
+  repeatWindow: 10000,
+  sanctions: ['warn', 'mute', 'kick'],
+  muteDuration: 60000,
+  banDuration: 60000,
+  strikeDecay: 600000,
+  strikeCooldown: 0
+};
+
+const kicked: string[] = [];
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const actions: ModerationActions = {
+  announce: async () => {},
+  kick: async gameId => {
+    kicked.push(gameId);
+    return true;
+  },
+  ban: async () => true,
+  report: () => {}
+};
+
+before(() => {
+  initModeration(options, actions);
+});
+
+test('clean messages are allowed', async () => {
+  assert.deepEqual(await moderateMessage({ gameId: 'clean', name: 'Clean' }, 'hello'), { allowed: true });
+});
+
+test('blocked words match whole words only, patterns anywhere', async () => {
+  const player = { gameId: 'filter', name: 'Filter' };
+
+  assert.equal((await moderateMessage(player, 'notbadwords here')).allowed, true);
+  assert.equal((await moderateMessage(player, 'a BADWORD here')).reason, 'blocked word');
+  pardonPlayer(player.gameId);
+  assert.equal((await moderateMessage(player, 'get FREE   gold now')).reason, 'blocked pattern');
+});
+
+test('flooding and repeating are violations', async () => {
+  const flooder = { gameId: 'flood', name: 'Flood' };
+  for (const text of ['one', 'two', 'three']) {
+    assert.equal((await moderateMessage(flooder, text)).allowed, true);
+  }
+  assert.match((await moderateMessage(flooder, 'four')).reason!, /more than 3 messages/);
+
+  const repeater = { gameId: 'repeat', name: 'Repeat' };
+  await moderateMessage(repeater, 'hi');
+  await moderateMessage(repeater, 'HI ');
+  assert.match((await moderateMessage(repeater, 'hi')).reason!, /repeated the same message 3 times/);
+});
+
+test('each strike walks up the sanctions', async () => {
+  const player = { gameId: 'ladder', name: 'Ladder' };
+
+  assert.equal((await moderateMessage(player, 'badword')).sanction, 'warn');
+  assert.equal((await moderateMessage(player, 'badword')).sanction, 'mute');
+  assert.deepEqual(await moderateMessage(player, 'hello'), { allowed: false, reason: 'muted' });
+
+  assert.equal(pardonPlayer(player.gameId), true);
+  assert.equal(pardonPlayer(player.gameId), false);
+  assert.equal((await moderateMessage(player, 'hello')).allowed, true);
+
+  await moderateMessage(player, 'badword');
+  assert.equal(pardonPlayer(player.gameId), true);
+  assert.deepEqual(kicked, []);
+});
+
+test('the last sanction repeats once the ladder is climbed', async () => {
+  const player = { gameId: 'kick', name: 'Kick' };
+  initModeration({ ...options, sanctions: ['warn', 'kick'] }, actions);
+
+  const sanctions = [];
+  for (let strike = 0; strike < 3; strike++) {
+    sanctions.push((await moderateMessage(player, `badword ${strike}`)).sanction);
+  }
+
+  assert.deepEqual(sanctions, ['warn', 'kick', 'kick']);
+  assert.deepEqual(kicked, ['kick', 'kick']);
+  assert.equal(listModeratedPlayers().find(p => p.gameId === 'kick')?.strikes, 3);
+  initModeration(options, actions);
+});
+
+test('a burst of violations within the cooldown adds a single strike', async () => {
+  const player = { gameId: 'burst', name: 'Burst' };
+  initModeration({ ...options, strikeCooldown: 200 }, actions);
+
+  const verdicts = [];
+  for (const text of ['badword', 'badword again', 'badword!']) {
+    verdicts.push(await moderateMessage(player, text));
+  }
+
+  assert.deepEqual(verdicts.map(verdict => [verdict.allowed, verdict.sanction]), [[false, 'warn'], [false, undefined], [false, undefined]]);
+  assert.equal(listModeratedPlayers().find(p => p.gameId === 'burst')?.strikes, 1);
+
+  await wait(250);
+  assert.equal((await moderateMessage(player, 'badword')).sanction, 'mute');
+  pardonPlayer(player.gameId);
+  initModeration(options, actions);
+});
+
+test('strikes and mutes survive a restart', async () => {
+  const player = { gameId: 'restart', name: 'Restart' };
+  await moderateMessage(player, 'badword');
+  await moderateMessage(player, 'badword');
+
+  initModeration(options, actions);
+
+  assert.deepEqual(await moderateMessage(player, 'hello'), { allowed: false, reason: 'muted' });
+  assert.equal(listModeratedPlayers().find(p => p.gameId === 'restart')?.strikes, 2);
+  pardonPlayer(player.gameId);
+});
+
+test('a pardon is saved too', async () => {
+  const player = { gameId: 'pardon', name: 'Pardon' };
+  await moderateMessage(player, 'badword');
+  assert.equal(pardonPlayer(player.gameId), true);
+
+  initModeration(options, actions);
+
+  assert.equal(listModeratedPlayers().some(p => p.gameId === 'pardon'), false);
+  assert.equal(pardonPlayer(player.gameId), false);
+});
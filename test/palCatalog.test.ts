@@ -0,0 +1,35 @@
+import './setup';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { isValidPalId, resolvePal, toTakaroEntities } from '../src/palCatalog';
+
+test('bundled Pals resolve by ID or display name', () => {
+  assert.equal(resolvePal('SheepBall').pal?.id, 'SheepBall');
+  assert.equal(resolvePal('lamball').pal?.id, 'SheepBall');
+});
+
+test('Pal IDs close to a catalog entry are only suggested', () => {
+  const match = resolvePal('SheepBall2');
+
+  assert.equal(match.pal, null);
+  assert.deepEqual(match.suggestions.map(pal => pal.id), ['SheepBall']);
+});
+
+test('unknown Pals match nothing', () => {
+  assert.deepEqual(resolvePal('Xyzzyq'), { pal: null, suggestions: [] });
+});
+
+test('every Pal is listed as a Takaro entity', () => {
+  const sheepBall = toTakaroEntities().find(entity => entity.code === 'SheepBall');
+
+  assert.equal(sheepBall?.name, 'Lamball');
+});
+
+test('Pal IDs that can be passed through to the mod', () => {
+  assert.equal(isValidPalId('Kirin_Ice'), true);
+  assert.equal(isValidPalId('BOSS_SheepBall'), true);
+  assert.equal(isValidPalId(''), false);
+  assert.equal(isValidPalId('Sheep Ball'), false);
+  assert.equal(isValidPalId('SheepBall"}'), false);
+  assert.equal(isValidPalId('x'.repeat(65)), false);
+});
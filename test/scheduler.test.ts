@@ -0,0 +1,82 @@
+import './setup';
+import { test, before, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { logger } from '../src/logger';
+import { initScheduler, setTaskPaused } from '../src/scheduler';
+
+const executed: string[] = [];
+let tick: () => void;
+
+// Local time, like the scheduler
+const setClock = (hour: number, minute: number, second = 0) =>
+  mock.timers.setTime(new Date(2024, 6, 1, hour, minute, second).getTime());
+
+// Runs one scheduler tick and lets the task runs finish
+async function runTick() {
+  tick();
+  await new Promise(resolve => setImmediate(resolve));
+}
+
+before(() => {
+  mock.timers.enable({ apis: ['Date'] });
+  setClock(10, 0, 30);
+
+  // Ticks are driven by the test instead of the interval
+  mock.method(global, 'setInterval', (callback: () => void) => {
+    tick = callback;
+    return { unref() {} };
+  });
+
+  initScheduler(async command => {
+    executed.push(command);
+    return { success: true };
+  }, {
+    SCHEDULE_EVERY: '* * * * * every',
+    SCHEDULE_QUARTER: '*/15 * * * * quarter',
+    SCHEDULE_HOURLY: '@hourly hourly',
+    SCHEDULE_BROKEN: '61 * * * * never'
+  });
+});
+
+beforeEach(() => {
+  executed.length = 0;
+});
+
+test('due tasks run once per minute', async () => {
+  setClock(10, 1, 5);
+  await runTick();
+  setClock(10, 1, 45);
+  await runTick();
+
+  assert.deepEqual(executed, ['every']);
+});
+
+test('paused tasks are skipped', async () => {
+  setTaskPaused('every', true);
+  setClock(10, 2, 0);
+  await runTick();
+  setTaskPaused('every', false);
+
+  assert.deepEqual(executed, []);
+});
+
+test('minutes missed during a stall are caught up, each task once', async () => {
+  const warn = mock.method(logger, 'warn');
+  setClock(10, 16, 10);
+  await runTick();
+
+  assert.deepEqual(executed.sort(), ['every', 'quarter']);
+  assert.match(String(warn.mock.calls[0].arguments[0]), /Missed 13 minute\(s\).*catching up/);
+  warn.mock.restore();
+});
+
+test('a long stall only catches up the last ten minutes', async () => {
+  const warn = mock.method(logger, 'warn');
+  setClock(11, 25, 0);
+  await runTick();
+
+  // 11:00 is more than ten minutes back, 11:15 is not
+  assert.deepEqual(executed.sort(), ['every', 'quarter']);
+  assert.match(String(warn.mock.calls[0].arguments[0]), /catching up the last 10, skipping 58/);
+  warn.mock.restore();
+});
@@ -0,0 +1,15 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Imported first by every test file: run in a scratch directory so the logger's
+ * logs/ and the stores' data/ never end up in the working tree
+ */
+const scratchDir = fs.mkdtempSync(path.join(os.tmpdir(), 'palworld-bridge-test-'));
+process.chdir(scratchDir);
+process.on('exit', () => fs.rmSync(scratchDir, { recursive: true, force: true }));
+
+// Required (not imported) so the logger is created after the chdir; silenced to keep test output readable
+const { logger } = require('../src/logger') as typeof import('../src/logger');
+logger.silent = true;